@@ -0,0 +1,211 @@
+import { randomBytes } from "node:crypto";
+import { cp, mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { execa } from "execa";
+import * as v from "valibot";
+import { getDataDir } from "./utils";
+
+export const backupFormatSchema = v.picklist(["tar", "copy"]);
+
+// "move" entries were moved to a trash directory instead of being archived
+const manifestFormatSchema = v.picklist(["tar", "copy", "move"]);
+
+export const backupConfigSchema = v.object({
+	enabled: v.optional(v.boolean()),
+	dir: v.optional(v.string()),
+	format: v.optional(backupFormatSchema),
+});
+
+const manifestEntrySchema = v.object({
+	path: v.string(),
+	originalPath: v.string(),
+	size: v.pipe(v.number(), v.minValue(0)),
+	storedPath: v.string(),
+	trashInfoPath: v.optional(v.string()),
+});
+
+export const backupManifestSchema = v.object({
+	version: v.literal(1),
+	id: v.string(),
+	format: manifestFormatSchema,
+	rootDir: v.string(),
+	createdAt: v.string(),
+	totalSize: v.pipe(v.number(), v.minValue(0)),
+	entries: v.array(manifestEntrySchema),
+});
+
+/**
+ * Archive format used for backups: gzipped tarball or plain directory snapshot.
+ */
+export type BackupFormat = v.InferOutput<typeof backupFormatSchema>;
+
+/**
+ * Backup settings as accepted in the `backup` field of the configuration.
+ */
+export type BackupConfig = v.InferOutput<typeof backupConfigSchema>;
+
+/**
+ * A single backed-up target recorded in a manifest.
+ */
+export type BackupManifestEntry = v.InferOutput<typeof manifestEntrySchema>;
+
+/**
+ * Describes one backup run and every target archived during it.
+ */
+export type BackupManifest = v.InferOutput<typeof backupManifestSchema>;
+
+/**
+ * Options for creating a backup run.
+ */
+export interface BackupRunOptions {
+	/** The project root the targets belong to. */
+	rootDir: string;
+	/** Directory where backup runs are stored. Defaults to `<data dir>/backups`. */
+	backupDir?: string;
+	/** Archive format. Defaults to 'tar'. */
+	format?: BackupFormat;
+}
+
+export const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Returns the default directory where backup runs are stored.
+ */
+export function getDefaultBackupDir(): string {
+	return join(getDataDir(), "backups");
+}
+
+/**
+ * Generates a sortable, unique identifier for a backup run.
+ * Example: 2025-01-31T12-00-00-000Z-a1b2c3
+ */
+export function createRunId(date: Date = new Date()): string {
+	const stamp = date.toISOString().replace(/[:.]/g, "-");
+	return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * A run that stores targets somewhere recoverable and keeps its manifest
+ * on disk up to date after every stored entry.
+ */
+export class ManifestRun {
+	readonly id: string;
+	readonly dir: string;
+	protected manifest: BackupManifest;
+	private pendingWrite: Promise<void> = Promise.resolve();
+	private counter = 0;
+
+	constructor(dir: string, manifest: BackupManifest) {
+		this.id = manifest.id;
+		this.dir = dir;
+		this.manifest = manifest;
+	}
+
+	get entries(): BackupManifestEntry[] {
+		return this.manifest.entries;
+	}
+
+	/**
+	 * Returns a name for the next stored entry, unique within the run.
+	 */
+	protected nextName(absolutePath: string): string {
+		this.counter++;
+		return `${String(this.counter).padStart(4, "0")}-${basename(absolutePath)}`;
+	}
+
+	/**
+	 * Adds a stored entry to the manifest and persists it.
+	 */
+	protected async record(entry: BackupManifestEntry): Promise<void> {
+		this.manifest.entries.push(entry);
+		this.manifest.totalSize += entry.size;
+		await this.save();
+	}
+
+	/**
+	 * Writes the manifest to disk. Writes are serialized so concurrent
+	 * entries never interleave.
+	 */
+	save(): Promise<void> {
+		const content = `${JSON.stringify(this.manifest, null, 2)}\n`;
+		const manifestPath = join(this.dir, MANIFEST_FILE);
+		this.pendingWrite = this.pendingWrite.then(() =>
+			writeFile(manifestPath, content, "utf-8"),
+		);
+		return this.pendingWrite;
+	}
+}
+
+/**
+ * An in-progress backup: archives targets one by one.
+ */
+export class BackupRun extends ManifestRun {
+	/**
+	 * Archives a single target. Rejects if the archive could not be written,
+	 * in which case the target must not be deleted.
+	 * @param absolutePath Absolute path of the target
+	 * @param path Path of the target relative to the project root
+	 * @param size Size of the target in bytes
+	 */
+	async backup(
+		absolutePath: string,
+		path: string,
+		size: number,
+	): Promise<void> {
+		const name = this.nextName(absolutePath);
+
+		let storedPath: string;
+		if (this.manifest.format === "tar") {
+			storedPath = join(this.dir, `${name}.tar.gz`);
+			await execa("tar", [
+				"-czf",
+				storedPath,
+				"-C",
+				dirname(absolutePath),
+				basename(absolutePath),
+			]);
+		} else {
+			storedPath = join(this.dir, name);
+			await cp(absolutePath, storedPath, {
+				recursive: true,
+				verbatimSymlinks: true,
+			});
+		}
+
+		await this.record({
+			path,
+			originalPath: absolutePath,
+			size,
+			storedPath,
+		});
+	}
+}
+
+/**
+ * Creates the directory for a new backup run and writes its empty manifest.
+ * @param options Backup run options
+ * @returns The backup run, ready to archive targets
+ */
+export async function createBackupRun(
+	options: BackupRunOptions,
+): Promise<BackupRun> {
+	const { rootDir, format = "tar" } = options;
+	const backupDir = options.backupDir ?? getDefaultBackupDir();
+	const id = createRunId();
+	const dir = join(backupDir, id);
+
+	await mkdir(dir, { recursive: true });
+
+	const run = new BackupRun(dir, {
+		version: 1,
+		id,
+		format,
+		rootDir,
+		createdAt: new Date().toISOString(),
+		totalSize: 0,
+		entries: [],
+	});
+	await run.save();
+
+	return run;
+}
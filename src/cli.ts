@@ -1,12 +1,37 @@
 #!/usr/bin/env node
 
 import { readFileSync, writeFileSync } from "node:fs";
-import { dirname, join } from "node:path";
+import { dirname, join, relative, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import chalk from "chalk";
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
+import prettyBytes from "pretty-bytes";
 import prompts from "prompts";
-import { cleanProject } from "./index";
+import { DEFAULT_TARGETS } from "./discovery";
+import { EXIT_CODES, getErrorExitCode, getResultExitCode } from "./exit-codes";
+import { describeExceededGuardrail } from "./guardrails";
+import {
+	type BackupManifest,
+	type CacheAction,
+	cleanProject,
+	emptyTrash,
+	findBackupRun,
+	findPackageCaches,
+	getDefaultTrashDir,
+	listBackupRuns,
+	listTrashRuns,
+	PACKAGE_MANAGERS,
+	type ProjectScan,
+	prunePackageCache,
+	resolveBackupDir,
+	restoreBackupRun,
+	SilentReporter,
+	scanWorkspace,
+} from "./index";
+import { detectPresets, PRESET_NAMES, PRESETS } from "./presets";
+import type { SizeMode } from "./sizes";
+import { formatSize, formatTable, promptConfirmation } from "./ui";
+import { detectPackageManager, parseDuration, parseSize } from "./utils";
 
 const getVersion = (): string => {
 	try {
@@ -20,6 +45,82 @@ const getVersion = (): string => {
 	}
 };
 
+const formatRun = (run: BackupManifest): string =>
+	[
+		chalk.bold(run.id),
+		new Date(run.createdAt).toLocaleString(),
+		run.rootDir,
+		`${run.entries.length} items`,
+		prettyBytes(run.totalSize),
+	].join("  ");
+
+const parseTargets = (list?: string): string[] | undefined =>
+	list
+		? list
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean)
+		: undefined;
+
+const parseConcurrency = (value: string): number => {
+	const concurrency = Number(value);
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new InvalidArgumentError("Must be a whole number of at least 1.");
+	}
+	return concurrency;
+};
+
+const parseDepth = (value: string): number => {
+	const depth = Number(value);
+	if (!Number.isInteger(depth) || depth < 0) {
+		throw new InvalidArgumentError("Must be a whole number of at least 0.");
+	}
+	return depth;
+};
+
+// Checked up front so a typo fails before the search; cleanProject parses
+// durations and sizes again
+const parseDurationOption = (value: string): string => {
+	try {
+		parseDuration(value);
+	} catch {
+		throw new InvalidArgumentError(
+			"Must be a number followed by ms, s, m, h, d or w (e.g. 7d).",
+		);
+	}
+	return value;
+};
+
+const parseSizeOption = (value: string): string => {
+	try {
+		parseSize(value);
+	} catch {
+		throw new InvalidArgumentError(
+			"Must be a number followed by B, KB, MB, GB or TB (e.g. 50MB).",
+		);
+	}
+	return value;
+};
+
+// Keeps a scanned project quiet but still asks before going past its own guardrails
+class ScanReporter extends SilentReporter {
+	override async confirm(message: string, initial = true): Promise<boolean> {
+		return promptConfirmation(message, initial);
+	}
+}
+
+// `--no-size` and `--estimate` as a size mode, undefined to keep the config's one
+const getSizeMode = (options: {
+	size?: boolean;
+	estimate?: boolean;
+}): SizeMode | undefined =>
+	options.size === false ? "none" : options.estimate ? "estimate" : undefined;
+
+const collect = (value: string, previous: string[]): string[] => [
+	...previous,
+	value,
+];
+
 const program = new Command();
 
 program
@@ -53,9 +154,89 @@ program
 		"-f, --force",
 		"Skip confirmation prompt (useful for CI/CD environments).",
 	)
+	.option(
+		"-i, --interactive",
+		"Pick which targets to delete from a list sorted by size.",
+	)
+	.option(
+		"--older-than <duration>",
+		"Only clean targets untouched for at least this long (e.g. 7d, 2w).",
+		parseDurationOption,
+	)
+	.option(
+		"--git-age",
+		"Also count the last git commit of the project as activity for --older-than.",
+	)
+	.option(
+		"--git-safe",
+		"Never delete a target containing files tracked by git.",
+	)
+	.option(
+		"--allow-dirty",
+		"Delete targets holding uncommitted git changes without asking again.",
+	)
+	.option(
+		"--gitignored",
+		"Delete what the .gitignore files ignore instead of the configured targets.",
+	)
+	.option(
+		"--min-size <size>",
+		"Skip targets smaller than this (e.g. 50MB).",
+		parseSizeOption,
+	)
+	.option(
+		"--free <size>",
+		"Delete the largest targets until this much space is freed (e.g. 10GB).",
+		parseSizeOption,
+	)
+	.option(
+		"--max-total <size>",
+		"Never delete more than this in total, largest targets first.",
+		parseSizeOption,
+	)
+	.option(
+		"--concurrency <n>",
+		"How many targets to measure and delete at once (default: one per CPU).",
+		parseConcurrency,
+	)
+	.option(
+		"--fast",
+		"Move targets aside at once and remove them in a background process.",
+	)
+	.option("--no-size", "Do not measure targets (faster, sizes are unknown).")
+	.addOption(
+		new Option(
+			"--estimate",
+			"Estimate target sizes from a sample instead of measuring every file.",
+		).conflicts("size"),
+	)
 	.option("-v, --verbose", "Show detailed output including retry attempts.")
 	.option("-q, --quiet", "Suppress all non-essential output.")
-	// .option("-b, --backup", "Create a backup before deleting files.")
+	.option("-b, --backup", "Archive targets before deleting them.")
+	.option("--backup-dir <dir>", "Directory where backups are stored.")
+	.addOption(
+		new Option(
+			"--delete-strategy <strategy>",
+			"Delete permanently (rm) or move targets to the trash (trash).",
+		).choices(["rm", "trash"]),
+	)
+	.option(
+		"-w, --workspace <name>",
+		"Only clean this workspace package, by name or directory (repeatable, globs allowed).",
+		collect,
+		[],
+	)
+	.option(
+		"--filter <selector>",
+		"pnpm-style package filter: name, ./dir, name..., ...name or !name (repeatable).",
+		collect,
+		[],
+	)
+	.option(
+		"--i-know-what-im-doing",
+		"Clean the filesystem root, home or system directories, and go beyond the guardrails without asking.",
+	)
+	.option("--json", "Print a single machine-readable JSON report.")
 	.action(async (options) => {
 		try {
 			const verbosity = options.quiet
@@ -64,24 +245,370 @@ program
 					? "verbose"
 					: "normal";
 
-			await cleanProject({
+			const result = await cleanProject({
 				rootDir: options.path,
 				dryRun: options.dryRun,
 				reinstall: options.reinstall,
 				configPath: options.config,
 				force: options.force,
+				interactive: options.interactive,
+				olderThan: options.olderThan,
+				useGitAge: options.gitAge,
+				gitSafe: options.gitSafe,
+				gitignored: options.gitignored,
+				allowDirty: options.allowDirty,
+				overrideGuardrails: options.iKnowWhatImDoing,
+				minSize: options.minSize,
+				free: options.free,
+				maxTotal: options.maxTotal,
+				concurrency: options.concurrency,
+				sizeMode: getSizeMode(options),
+				fast: options.fast,
 				verbosity,
-				// backup: options.backup,
-				targets: options.targets
-					? options.targets
-							.split(",")
-							.map((item: string) => item.trim())
-							.filter(Boolean)
-					: undefined,
+				backup: options.backup,
+				backupDir: options.backupDir,
+				deleteStrategy: options.deleteStrategy,
+				reporter: options.json ? "json" : undefined,
+				workspace: options.workspace,
+				filter: options.filter,
+				targets: parseTargets(options.targets),
 			});
+			// Let stdout drain (e.g. the JSON report) before exiting
+			process.exitCode = getResultExitCode(result);
 		} catch (error) {
-			console.error("An unexpected error occurred during cleanup:", error);
-			process.exit(1);
+			const exitCode = getErrorExitCode(error);
+			if (exitCode === EXIT_CODES.error) {
+				console.error("An unexpected error occurred during cleanup:", error);
+			} else {
+				console.error(error instanceof Error ? error.message : error);
+			}
+			process.exit(exitCode);
+		}
+	});
+
+program
+	.command("scan")
+	.description(
+		"Find every project below a directory and clean all or some of them",
+	)
+	.argument("[dir]", "Directory containing the projects.", process.cwd())
+	.option("-d, --dry-run", "Only list the projects and what would be deleted.")
+	.option(
+		"--depth <n>",
+		"How many directory levels to search for projects.",
+		parseDepth,
+	)
+	.option("-t, --targets <list>", "Override targets (comma-separated).")
+	.option("-c, --config <file>", "Path to a global configuration file.")
+	.option("-f, --force", "Clean every project without asking.")
+	.option(
+		"--older-than <duration>",
+		"Only clean targets untouched for at least this long (e.g. 7d, 2w).",
+		parseDurationOption,
+	)
+	.option(
+		"--git-age",
+		"Also count the last git commit of a project as activity for --older-than.",
+	)
+	.option(
+		"--min-size <size>",
+		"Skip targets smaller than this (e.g. 50MB).",
+		parseSizeOption,
+	)
+	.option(
+		"--concurrency <n>",
+		"How many targets to measure and delete at once per project.",
+		parseConcurrency,
+	)
+	.option(
+		"--fast",
+		"Move targets aside at once and remove them in a background process.",
+	)
+	.option("--no-size", "Do not measure targets (faster, sizes are unknown).")
+	.addOption(
+		new Option(
+			"--estimate",
+			"Estimate target sizes from a sample instead of measuring every file.",
+		).conflicts("size"),
+	)
+	.option("-b, --backup", "Archive targets before deleting them.")
+	.addOption(
+		new Option(
+			"--delete-strategy <strategy>",
+			"Delete permanently (rm) or move targets to the trash (trash).",
+		).choices(["rm", "trash"]),
+	)
+	.option(
+		"--i-know-what-im-doing",
+		"Clean the filesystem root, home or system directories, and go beyond the guardrails without asking.",
+	)
+	.action(async (dir: string, options) => {
+		try {
+			const baseDir = resolve(dir);
+			const targets = parseTargets(options.targets);
+			const filters = {
+				olderThan: options.olderThan,
+				useGitAge: options.gitAge,
+				minSize: options.minSize,
+				concurrency: options.concurrency,
+				sizeMode: getSizeMode(options),
+			};
+
+			console.log(chalk.cyan(`🔍 Scanning projects in ${baseDir}...`));
+			const scan = await scanWorkspace({
+				baseDir,
+				depth: options.depth,
+				configPath: options.config,
+				targets,
+				...filters,
+			});
+			const label = (rootDir: string) => relative(baseDir, rootDir) || ".";
+			const sizeOf = (project: ProjectScan) =>
+				formatSize(project.totalSize, project.targets[0]?.sizeMode);
+
+			for (const project of scan.projects) {
+				if (project.error) {
+					console.error(
+						chalk.red(`✗ ${label(project.rootDir)}: ${project.error}`),
+					);
+				}
+			}
+
+			const projects = scan.projects
+				.filter((project) => project.targets.length > 0)
+				.sort((a, b) => b.totalSize - a.totalSize);
+
+			if (projects.length === 0) {
+				console.log(chalk.green("✨ Nothing to clean in any project."));
+				return;
+			}
+
+			console.log(
+				`\n${formatTable(
+					["Project", "Targets", "Size"],
+					[
+						...projects.map((project) => [
+							label(project.rootDir),
+							String(project.targets.length),
+							sizeOf(project),
+						]),
+						[
+							`Total (${projects.length} projects)`,
+							String(projects.reduce((sum, p) => sum + p.targets.length, 0)),
+							formatSize(scan.totalSize, projects[0]?.targets[0]?.sizeMode),
+						],
+					],
+				)}\n`,
+			);
+
+			if (options.dryRun) {
+				console.log(chalk.yellow("Dry-run mode: no files were deleted."));
+				return;
+			}
+
+			let selected = projects.map((project) => project.rootDir);
+			if (!options.force) {
+				const response = await prompts({
+					type: "multiselect",
+					name: "selected",
+					message: "Select the projects to clean",
+					hint: "- Space to toggle, A to toggle all, Enter to confirm",
+					instructions: false,
+					choices: projects.map((project) => ({
+						title: label(project.rootDir),
+						description: sizeOf(project),
+						value: project.rootDir,
+						selected: true,
+					})),
+				});
+				selected = response.selected ?? [];
+			} else if (!options.iKnowWhatImDoing) {
+				// Past the guardrails, even force needs a confirmation
+				const chosen = projects.filter((project) =>
+					selected.includes(project.rootDir),
+				);
+				const exceeded = describeExceededGuardrail(
+					chosen.reduce((sum, project) => sum + project.targets.length, 0),
+					chosen.reduce((sum, project) => sum + project.totalSize, 0),
+				);
+				if (
+					exceeded &&
+					!(await promptConfirmation(`${exceeded} Delete them anyway?`, false))
+				) {
+					selected = [];
+				}
+			}
+
+			if (selected.length === 0) {
+				console.log(chalk.red("Operation cancelled."));
+				process.exitCode = EXIT_CODES.cancelled;
+				return;
+			}
+
+			const rows: string[][] = [];
+			let exitCode: number = EXIT_CODES.success;
+			let freedBytes = 0;
+			for (const rootDir of selected) {
+				console.log(chalk.cyan(`🧹 Cleaning ${label(rootDir)}...`));
+				try {
+					const result = await cleanProject({
+						rootDir,
+						configPath: options.config,
+						targets,
+						...filters,
+						force: true,
+						overrideGuardrails: options.iKnowWhatImDoing,
+						fast: options.fast,
+						backup: options.backup,
+						deleteStrategy: options.deleteStrategy,
+						reporter: new ScanReporter(),
+					});
+					freedBytes += result.freedBytes;
+					rows.push([
+						label(rootDir),
+						String(result.deleted.length),
+						formatSize(result.freedBytes, filters.sizeMode),
+						String(result.errors.length),
+						result.errors.length > 0 ? "partial" : result.status,
+					]);
+					exitCode ||= getResultExitCode(result);
+				} catch (error) {
+					rows.push([label(rootDir), "0", prettyBytes(0), "-", "failed"]);
+					console.error(
+						chalk.red(
+							`✗ ${label(rootDir)}: ${error instanceof Error ? error.message : error}`,
+						),
+					);
+					exitCode ||= getErrorExitCode(error);
+				}
+			}
+
+			console.log(
+				`\n${formatTable(["Project", "Deleted", "Freed", "Errors", "Status"], rows)}`,
+			);
+			console.log(
+				chalk.green(
+					`\n✨ Freed ${formatSize(freedBytes, filters.sizeMode)} across ${selected.length} projects.`,
+				),
+			);
+			process.exitCode = exitCode;
+		} catch (error) {
+			const exitCode = getErrorExitCode(error);
+			console.error("An error occurred during the scan:", error);
+			process.exit(exitCode);
+		}
+	});
+
+program
+	.command("cache")
+	.description(
+		"Show the size of the global package-manager caches and prune them",
+	)
+	.addOption(
+		new Option(
+			"-m, --manager <names...>",
+			"Only handle these package managers.",
+		).choices(PACKAGE_MANAGERS),
+	)
+	.option(
+		"--prune",
+		"Prune the caches with each manager's own command (yarn and bun can only clear their whole cache).",
+	)
+	.option("-f, --force", "Prune without asking.")
+	.action(async (options) => {
+		try {
+			const cwd = process.cwd();
+			const projectManager = detectPackageManager(cwd);
+
+			console.log(chalk.cyan("🔍 Measuring package-manager caches..."));
+			const caches = await findPackageCaches(options.manager, cwd);
+
+			if (caches.length === 0) {
+				console.log(chalk.green("✨ No package-manager cache found."));
+				return;
+			}
+
+			const totalSize = caches.reduce((sum, cache) => sum + cache.size, 0);
+			console.log(
+				`\n${formatTable(
+					["Manager", "Location", "Size", "--prune"],
+					[
+						...caches.map((cache) => [
+							cache.manager === projectManager
+								? `${cache.manager} (this project)`
+								: cache.manager,
+							cache.path,
+							prettyBytes(cache.size),
+							cache.action === "clear" ? "clears all" : "prunes",
+						]),
+						["Total", "", prettyBytes(totalSize), ""],
+					],
+				)}\n`,
+			);
+
+			if (!options.prune) return;
+
+			if (!options.force) {
+				// Say which caches are emptied completely rather than pruned
+				const describe = (action: CacheAction, verb: string) => {
+					const managers = caches
+						.filter((cache) => cache.action === action)
+						.map((cache) => cache.manager);
+					if (managers.length === 0) return [];
+					return [
+						`${verb} the ${managers.join(", ")} cache${managers.length > 1 ? "s" : ""}`,
+					];
+				};
+				const question = [
+					...describe("prune", "prune"),
+					...describe("clear", "clear the whole"),
+				].join(" and ");
+				const response = await prompts({
+					type: "confirm",
+					name: "confirm",
+					message: `${question.charAt(0).toUpperCase()}${question.slice(1)} (${prettyBytes(totalSize)} in total)?`,
+					initial: false,
+				});
+				if (!response.confirm) {
+					console.log(chalk.red("Operation cancelled."));
+					process.exitCode = EXIT_CODES.cancelled;
+					return;
+				}
+			}
+
+			const rows: string[][] = [];
+			let freedBytes = 0;
+			let failed = false;
+			for (const cache of caches) {
+				const clear = cache.action === "clear";
+				console.log(
+					chalk.cyan(
+						`🧹 ${clear ? "Clearing" : "Pruning"} the ${cache.manager} cache...`,
+					),
+				);
+				const result = await prunePackageCache(cache, cwd);
+				freedBytes += result.freedBytes;
+				if (result.error) {
+					failed = true;
+					console.error(chalk.red(`✗ ${result.error}`));
+				}
+				rows.push([
+					cache.manager,
+					prettyBytes(result.freedBytes),
+					result.error ? "failed" : clear ? "cleared" : "pruned",
+				]);
+			}
+
+			console.log(`\n${formatTable(["Manager", "Freed", "Status"], rows)}`);
+			console.log(
+				chalk.green(`\n✨ Freed ${prettyBytes(freedBytes)} of cache.`),
+			);
+			process.exitCode = failed
+				? EXIT_CODES.partialFailure
+				: EXIT_CODES.success;
+		} catch (error) {
+			console.error("An error occurred while handling the caches:", error);
+			process.exit(EXIT_CODES.error);
 		}
 	});
 
@@ -99,24 +626,40 @@ program
 				chalk.cyan("✨ Let's create your purgo-cli configuration!\n"),
 			);
 
+			const detectedPresets = await detectPresets(options.path);
+
 			const response = await prompts([
 				{
 					type: "multiselect",
 					name: "targets",
 					message: "Select directories/files to clean:",
 					choices: [
-						{ title: "node_modules", value: "node_modules", selected: true },
-						{ title: "dist", value: "dist", selected: true },
-						{ title: "build", value: "build", selected: true },
-						{ title: "coverage", value: "coverage", selected: true },
-						{ title: ".turbo", value: ".turbo" },
-						{ title: ".next", value: ".next" },
-						{ title: ".svelte-kit", value: ".svelte-kit" },
+						...DEFAULT_TARGETS.map((target) => ({
+							title: target,
+							value: target,
+							selected: true,
+						})),
 						{ title: "out", value: "out" },
 						{ title: ".cache", value: ".cache" },
 					],
 					hint: "- Space to select. Return to submit",
 				},
+				{
+					type: "multiselect",
+					name: "presets",
+					message: "Select framework presets (detected ones are ticked):",
+					choices: PRESET_NAMES.map((name) => ({
+						title: name,
+						value: name,
+						description: PRESETS[name].targets
+							.map((target) =>
+								typeof target === "string" ? target : target.pattern,
+							)
+							.join(", "),
+						selected: detectedPresets.includes(name),
+					})),
+					hint: "- Space to select. Return to submit",
+				},
 				{
 					type: "list",
 					name: "ignore",
@@ -154,6 +697,10 @@ program
 				config.targets = response.targets;
 			}
 
+			if (response.presets && response.presets.length > 0) {
+				config.presets = response.presets;
+			}
+
 			if (response.ignore && response.ignore.length > 0) {
 				config.ignore = response.ignore;
 			}
@@ -198,4 +745,159 @@ program
 		}
 	});
 
+program
+	.command("restore")
+	.description(
+		"Restore targets removed by a previous clean from its backup or the trash",
+	)
+	.argument("[id]", "ID (or unique ID prefix) of the run to restore")
+	.option("-l, --list", "List available runs without restoring anything.")
+	.option(
+		"-p, --path <path>",
+		"Project root used to locate the configured backup directory.",
+		process.cwd(),
+	)
+	.option("-c, --config <file>", "Path to a global configuration file.")
+	.option("--backup-dir <dir>", "Directory where backups are stored.")
+	.option("--overwrite", "Replace paths that were recreated since the cleanup.")
+	.action(async (id: string | undefined, options) => {
+		try {
+			const backupDir = await resolveBackupDir({
+				rootDir: options.path,
+				backupDir: options.backupDir,
+				configPath: options.config,
+			});
+			const runDirs = [backupDir, getDefaultTrashDir()];
+			const runs = await listBackupRuns(runDirs);
+
+			if (runs.length === 0) {
+				console.log(chalk.yellow(`No runs found in ${runDirs.join(", ")}`));
+				return;
+			}
+
+			if (options.list) {
+				console.log(chalk.cyan("Restorable runs:\n"));
+				for (const run of runs) {
+					console.log(`  ${formatRun(run)}`);
+				}
+				return;
+			}
+
+			let manifest: BackupManifest | undefined;
+			if (id) {
+				manifest = await findBackupRun(id, runDirs);
+			} else {
+				const response = await prompts({
+					type: "select",
+					name: "id",
+					message: "Select a run to restore:",
+					choices: runs.map((run) => ({
+						title: formatRun(run),
+						value: run.id,
+					})),
+				});
+				manifest = runs.find((run) => run.id === response.id);
+			}
+
+			if (!manifest) {
+				console.log(chalk.red("Operation cancelled."));
+				return;
+			}
+
+			const result = await restoreBackupRun(manifest, {
+				overwrite: options.overwrite,
+				backupDirs: runDirs,
+			});
+
+			for (const path of result.restored) {
+				console.log(chalk.green(`✓ Restored ${path}`));
+			}
+			for (const item of result.skipped) {
+				console.log(chalk.yellow(`- Skipped ${item.path}: ${item.message}`));
+			}
+			for (const item of result.errors) {
+				console.error(chalk.red(`✗ Failed ${item.path}: ${item.message}`));
+			}
+
+			console.log(
+				chalk.cyan(
+					`\n${result.restored.length} restored, ${result.skipped.length} skipped, ${result.errors.length} failed.`,
+				),
+			);
+
+			if (result.errors.length > 0) {
+				process.exit(1);
+			}
+		} catch (error) {
+			console.error("An error occurred during restore:", error);
+			process.exit(1);
+		}
+	});
+
+const trash = program
+	.command("trash")
+	.description(
+		"Manage targets moved to the trash by 'clean --delete-strategy trash'",
+	);
+
+trash
+	.command("list")
+	.description("List trashed runs")
+	.action(async () => {
+		try {
+			const runs = await listTrashRuns();
+			if (runs.length === 0) {
+				console.log(chalk.green("The trash is empty."));
+				return;
+			}
+			for (const run of runs) {
+				console.log(`  ${formatRun(run)}`);
+			}
+		} catch (error) {
+			console.error("An error occurred while listing the trash:", error);
+			process.exit(1);
+		}
+	});
+
+trash
+	.command("empty")
+	.description("Permanently delete trashed targets")
+	.option(
+		"--older-than <duration>",
+		"Only delete runs older than this (e.g. 12h, 7d, 2w).",
+	)
+	.option("-f, --force", "Skip confirmation prompt.")
+	.action(async (options) => {
+		try {
+			const olderThan = options.olderThan
+				? parseDuration(options.olderThan)
+				: undefined;
+
+			if (!options.force) {
+				const response = await prompts({
+					type: "confirm",
+					name: "confirm",
+					message: olderThan
+						? `Permanently delete trashed runs older than ${options.olderThan}?`
+						: "Permanently delete everything in the purgo trash?",
+					initial: false,
+				});
+				if (!response.confirm) {
+					console.log(chalk.red("Operation cancelled."));
+					return;
+				}
+			}
+
+			const result = await emptyTrash({ olderThan });
+			console.log(
+				chalk.green(
+					`✓ Removed ${result.removed.length} runs and freed ${prettyBytes(result.freedBytes)}`,
+				),
+			);
+		} catch (error) {
+			console.error("An error occurred while emptying the trash:", error);
+			process.exit(1);
+		}
+	});
+
 program.parse(process.argv);
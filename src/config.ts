@@ -2,20 +2,45 @@ import { existsSync } from "node:fs";
 import { resolve } from "node:path";
 import { cosmiconfig } from "cosmiconfig";
 import * as v from "valibot";
+import { backupConfigSchema } from "./backup";
 import { configCache } from "./cache";
-
-const hooksSchema = v.object({
-	preClean: v.optional(v.string()),
-	postClean: v.optional(v.string()),
-});
+import { ConfigError } from "./errors";
+import { durationSchema, sizeSchema } from "./filters";
+import { guardrailsConfigSchema } from "./guardrails";
+import { hookExecutorSchema } from "./hooks";
+import { reporterNameSchema } from "./json-reporter";
+import { pluginEntrySchema } from "./plugins";
+import { presetNameSchema } from "./presets";
+import { sizeModeSchema } from "./sizes";
+import { targetSchema } from "./targets";
+import { deleteStrategySchema, trashConfigSchema } from "./trash";
+import { workspaceOverrideSchema } from "./workspaces";
 
 const configSchema = v.object({
-	targets: v.optional(v.array(v.string())),
+	targets: v.optional(v.array(targetSchema)),
+	presets: v.optional(v.array(presetNameSchema)),
+	plugins: v.optional(v.array(pluginEntrySchema)),
 	ignore: v.optional(v.array(v.string())),
 	extends: v.optional(v.union([v.string(), v.array(v.string())])),
-	hooks: v.optional(hooksSchema),
+	hooks: v.optional(hookExecutorSchema),
 	protectSelf: v.optional(v.boolean()),
 	excludePackages: v.optional(v.array(v.string())),
+	protect: v.optional(v.array(v.string())),
+	guardrails: v.optional(guardrailsConfigSchema),
+	backup: v.optional(backupConfigSchema),
+	deleteStrategy: v.optional(deleteStrategySchema),
+	trash: v.optional(trashConfigSchema),
+	reporter: v.optional(reporterNameSchema),
+	minAge: v.optional(durationSchema),
+	useGitAge: v.optional(v.boolean()),
+	gitSafe: v.optional(v.boolean()),
+	gitignored: v.optional(v.boolean()),
+	allowDirty: v.optional(v.boolean()),
+	minSize: v.optional(sizeSchema),
+	concurrency: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+	sizeMode: v.optional(sizeModeSchema),
+	sizeCache: v.optional(v.boolean()),
+	workspaces: v.optional(v.record(v.string(), workspaceOverrideSchema)),
 });
 
 /**
@@ -24,6 +49,15 @@ const configSchema = v.object({
  */
 export type PurgoConfig = v.InferOutput<typeof configSchema>;
 
+/**
+ * Returns the configuration as is. Wrapping the default export of a `purgo.config.ts`
+ * or `.purgorc.js` in it brings type checking and completion, function hooks included.
+ * @param config The configuration
+ */
+export function defineConfig(config: PurgoConfig): PurgoConfig {
+	return config;
+}
+
 const validateConfig = (value: unknown) => {
 	return v.safeParse(configSchema, value);
 };
@@ -37,19 +71,55 @@ const mergeConfigs = (
 		if (!override.hooks) return base.hooks;
 		if (!base.hooks) return override.hooks;
 
-		return {
-			preClean: override.hooks.preClean ?? base.hooks.preClean,
-			postClean: override.hooks.postClean ?? base.hooks.postClean,
-		};
+		// Each event is replaced as a whole, commands are not concatenated
+		return { ...base.hooks, ...override.hooks };
 	})();
 
 	return {
 		targets: override.targets ?? base.targets,
+		presets: override.presets ?? base.presets,
+		// Plugins of the global config stay active in every project
+		plugins:
+			override.plugins || base.plugins
+				? [...(base.plugins ?? []), ...(override.plugins ?? [])]
+				: undefined,
 		ignore: override.ignore ?? base.ignore,
 		extends: override.extends ?? base.extends,
 		hooks: mergedHooks,
 		protectSelf: override.protectSelf ?? base.protectSelf ?? true,
 		excludePackages: override.excludePackages ?? base.excludePackages,
+		// A project config cannot lift protections of the global one
+		protect:
+			override.protect || base.protect
+				? [...(base.protect ?? []), ...(override.protect ?? [])]
+				: undefined,
+		guardrails:
+			override.guardrails || base.guardrails
+				? { ...base.guardrails, ...override.guardrails }
+				: undefined,
+		backup:
+			override.backup || base.backup
+				? { ...base.backup, ...override.backup }
+				: undefined,
+		deleteStrategy: override.deleteStrategy ?? base.deleteStrategy,
+		reporter: override.reporter ?? base.reporter,
+		minAge: override.minAge ?? base.minAge,
+		useGitAge: override.useGitAge ?? base.useGitAge,
+		gitSafe: override.gitSafe ?? base.gitSafe,
+		gitignored: override.gitignored ?? base.gitignored,
+		allowDirty: override.allowDirty ?? base.allowDirty,
+		minSize: override.minSize ?? base.minSize,
+		concurrency: override.concurrency ?? base.concurrency,
+		sizeMode: override.sizeMode ?? base.sizeMode,
+		sizeCache: override.sizeCache ?? base.sizeCache,
+		workspaces:
+			override.workspaces || base.workspaces
+				? { ...base.workspaces, ...override.workspaces }
+				: undefined,
+		trash:
+			override.trash || base.trash
+				? { ...base.trash, ...override.trash }
+				: undefined,
 	};
 };
 
@@ -66,7 +136,7 @@ const loadRawConfig = async (cwd: string): Promise<PurgoConfig | null> => {
 					`  - ${issue.path?.map((p) => p.key).join(".") || "root"}: ${issue.message}`,
 			)
 			.join("\n");
-		throw new Error(
+		throw new ConfigError(
 			`Invalid 'purgo' configuration in ${result.filepath}:\n${errorMessages}`,
 		);
 	}
@@ -91,19 +161,21 @@ const resolveExtends = async (
 		const absolutePath = resolve(cwd, extendPath);
 
 		if (visited.has(absolutePath)) {
-			throw new Error(`Configuration extends cycle detected: ${absolutePath}`);
+			throw new ConfigError(
+				`Configuration extends cycle detected: ${absolutePath}`,
+			);
 		}
 
 		visited.add(absolutePath);
 
 		if (!existsSync(absolutePath)) {
-			throw new Error(`Extends file not found: ${absolutePath}`);
+			throw new ConfigError(`Extends file not found: ${absolutePath}`);
 		}
 
 		const explorer = cosmiconfig("purgo");
 		const result = await explorer.load(absolutePath);
 		if (!result) {
-			throw new Error(`Could not load extends: ${absolutePath}`);
+			throw new ConfigError(`Could not load extends: ${absolutePath}`);
 		}
 
 		const validation = validateConfig(result.config);
@@ -114,7 +186,9 @@ const resolveExtends = async (
 						`  - ${issue.path?.map((p) => p.key).join(".") || "root"}: ${issue.message}`,
 				)
 				.join("\n");
-			throw new Error(`Invalid extends '${absolutePath}':\n${errorMessages}`);
+			throw new ConfigError(
+				`Invalid extends '${absolutePath}':\n${errorMessages}`,
+			);
 		}
 
 		const resolvedExtended = await resolveExtends(
@@ -152,7 +226,7 @@ export interface LoadConfigOptions {
  * Results are cached for performance.
  * @param options Configuration loading options
  * @returns The merged configuration with its source file path
- * @throws Error if configuration is invalid or extends cycle is detected
+ * @throws ConfigError if configuration is invalid or extends cycle is detected
  */
 export const loadConfig = async (
 	options: LoadConfigOptions,
@@ -178,7 +252,7 @@ export const loadConfig = async (
 							`  - ${issue.path?.map((p) => p.key).join(".") || "root"}: ${issue.message}`,
 					)
 					.join("\n");
-				throw new Error(
+				throw new ConfigError(
 					`Invalid global config (${globalConfigPath}):\n${errorMessages}`,
 				);
 			}
@@ -196,9 +270,13 @@ export const loadConfig = async (
 		configs.push({ config: resolved });
 	}
 
-	const configFromPackageJson = await cosmiconfig("purgo").load(
-		resolve(projectRoot, "package.json"),
-	);
+	// Projects identified by a lockfile alone have no package.json
+	const configFromPackageJson = await cosmiconfig("purgo")
+		.load(resolve(projectRoot, "package.json"))
+		.catch((error: NodeJS.ErrnoException) => {
+			if (error.code === "ENOENT") return null;
+			throw error;
+		});
 
 	if (configFromPackageJson?.config) {
 		const validation = validateConfig(configFromPackageJson.config);
@@ -209,7 +287,9 @@ export const loadConfig = async (
 						`  - ${issue.path?.map((p) => p.key).join(".") || "root"}: ${issue.message}`,
 				)
 				.join("\n");
-			throw new Error(`Invalid config in package.json:\n${errorMessages}`);
+			throw new ConfigError(
+				`Invalid config in package.json:\n${errorMessages}`,
+			);
 		}
 		const resolved = await resolveExtends(validation.output, projectRoot);
 		configs.push({ config: resolved });
@@ -0,0 +1,388 @@
+import { resolve } from "node:path";
+import { glob } from "glob";
+import type { PurgoConfig } from "./config";
+import { FAST_TRASH_PREFIX } from "./fast-delete";
+import {
+	ActivityTracker,
+	type Duration,
+	isOlderThan,
+	type Size,
+	type SizedTarget,
+	selectBySize,
+} from "./filters";
+import { findTrackedPaths } from "./git";
+import { findGitignoredPaths } from "./gitignore";
+import { resolveProtectedPaths } from "./guardrails";
+import { PathGuard } from "./path-guard";
+import {
+	filterWithPlugins,
+	getPluginTargets,
+	loadPlugins,
+	type PurgoPlugin,
+} from "./plugins";
+import { measureSize, SizeCache, type SizeMode } from "./sizes";
+import { parseTarget, type Target, type TargetRule } from "./targets";
+import type { SkippedTarget } from "./ui";
+import {
+	deduplicatePaths,
+	formatAge,
+	getDefaultConcurrency,
+	globToRegExp,
+	mapWithConcurrency,
+	parseDuration,
+	parseSize,
+	resolvePackageDir,
+	shouldProtectPath,
+} from "./utils";
+
+export { DEFAULT_TARGETS } from "./plugins";
+
+/**
+ * A directory of the project searched with its own settings, e.g. a workspace package.
+ */
+export interface DiscoveryScope {
+	/** Directory relative to rootDir, with forward slashes; "." for the whole project. */
+	dir: string;
+	/** Name reported on the targets found in this scope. */
+	name?: string;
+	/** Targets to find, unless `targets` is given. Defaults to the project's targets. */
+	targets?: Target[];
+	/** Extra ignore patterns, relative to the scope directory. */
+	ignore?: string[];
+}
+
+/**
+ * Options for discovering the targets of a project.
+ */
+export interface DiscoveryOptions {
+	/** The root directory to search from. */
+	rootDir: string;
+	/** The project's loaded configuration. */
+	config: PurgoConfig;
+	/** Targets to find. Overrides config if provided. */
+	targets?: Target[];
+	/** Only keeps targets untouched for at least this long. Overrides `minAge` from config. */
+	olderThan?: Duration;
+	/** If true, a recent commit counts as activity. Overrides `useGitAge` from config. */
+	useGitAge?: boolean;
+	/** If true, targets containing files tracked by git are skipped. Overrides `gitSafe` from config. */
+	gitSafe?: boolean;
+	/**
+	 * If true, candidates are the paths ignored by the project's .gitignore files
+	 * instead of `targets`, and tracked ones are skipped. Overrides `gitignored` from config.
+	 */
+	gitignored?: boolean;
+	/** Skips targets smaller than this. Overrides `minSize` from config. */
+	minSize?: Size;
+	/** Picks the largest targets until this much space would be freed. */
+	free?: Size;
+	/** Never selects more than this in total. */
+	maxTotal?: Size;
+	/**
+	 * Directories to search, each with its own settings. Defaults to the whole project.
+	 * A scope nested in another one is left out of the outer scope.
+	 */
+	scopes?: DiscoveryScope[];
+	/** How many targets are measured at once. Defaults to one per CPU (at least two). */
+	concurrency?: number;
+	/** How target sizes are obtained. Overrides `sizeMode` from config. */
+	sizeMode?: SizeMode;
+	/** Plugins contributing and filtering targets. Defaults to those of the config. */
+	plugins?: PurgoPlugin[];
+	/** Called when discovery moves on to a new step. */
+	onProgress?: (message: string) => void;
+}
+
+/**
+ * Targets found in a project, measured and filtered.
+ */
+export interface DiscoveryResult {
+	/** Targets to clean, relative to rootDir, with their size in bytes. */
+	targets: SizedTarget[];
+	/** Targets left out by a filter, with the reason why. */
+	skipped: SkippedTarget[];
+}
+
+// Like glob's `ignore`, a pattern ending in /** also matches the directory itself
+const matchesIgnorePattern = (path: string, pattern: string): boolean =>
+	globToRegExp(pattern).test(path) ||
+	(pattern.endsWith("/**") && globToRegExp(pattern.slice(0, -3)).test(path));
+
+const getProtectedDirs = (config: PurgoConfig): string[] => {
+	const envProtected = process.env.PURGO_PROTECT_DIR;
+	const ownPkgDir =
+		envProtected && envProtected.length > 0
+			? envProtected
+			: resolvePackageDir("purgo-cli");
+	const extraExcluded = (config.excludePackages ?? [])
+		.map((name) => resolvePackageDir(name))
+		.filter((v): v is string => Boolean(v));
+	return [ownPkgDir, ...extraExcluded].filter((v): v is string => Boolean(v));
+};
+
+/**
+ * Finds the targets of a project (or its gitignored paths), keeps only top-level
+ * ones, drops protected packages and tracked paths, then applies the age and size filters.
+ * @param options Discovery options
+ * @returns The targets to clean and the skipped ones
+ */
+export async function discoverTargets(
+	options: DiscoveryOptions,
+): Promise<DiscoveryResult> {
+	const { rootDir, config, onProgress } = options;
+
+	const sizeMode = options.sizeMode ?? config.sizeMode ?? "exact";
+	const minSizeSetting = options.minSize ?? config.minSize;
+	if (
+		sizeMode === "none" &&
+		(minSizeSetting !== undefined ||
+			options.free !== undefined ||
+			options.maxTotal !== undefined)
+	) {
+		throw new Error(
+			"Size filters (minSize, free, maxTotal) need target sizes and cannot be used when sizes are not measured.",
+		);
+	}
+
+	const plugins =
+		options.plugins ?? (await loadPlugins(config.plugins, rootDir));
+	const pluginContext = { rootDir: resolve(rootDir), config };
+	const ignoreFromConfig = config.ignore ?? [];
+	const finalIgnore = [
+		"**/node_modules/**/node_modules",
+		"**/.git",
+		"**/.git/**",
+		"**/.gitignore",
+		`**/${FAST_TRASH_PREFIX}*`,
+		`**/${FAST_TRASH_PREFIX}*/**`,
+		...ignoreFromConfig,
+	];
+
+	const scopes = options.scopes ?? [{ dir: "." }];
+	const prefixOf = (dir: string) => (dir === "." ? "" : `${dir}/`);
+	const scopeDepthOf = (dir: string) =>
+		dir === "." ? 0 : dir.split("/").length;
+	const scopeByPath = new Map<string, DiscoveryScope>();
+
+	const gitignored = options.gitignored ?? config.gitignored ?? false;
+	if (gitignored) {
+		onProgress?.("Reading .gitignore rules...");
+		// Deepest scope first, so a path is attributed to its own package
+		const scopesByDepth = [...scopes].sort(
+			(a, b) => prefixOf(b.dir).length - prefixOf(a.dir).length,
+		);
+		for (const path of await findGitignoredPaths(rootDir)) {
+			if (finalIgnore.some((pattern) => matchesIgnorePattern(path, pattern))) {
+				continue;
+			}
+			const scope = scopesByDepth.find((candidate) =>
+				path.startsWith(prefixOf(candidate.dir)),
+			);
+			const prefix = scope ? prefixOf(scope.dir) : "";
+			const ignoredByScope = (scope?.ignore ?? []).some((pattern) =>
+				matchesIgnorePattern(path, `${prefix}${pattern}`),
+			);
+			if (scope && !ignoredByScope) scopeByPath.set(path, scope);
+		}
+	} else {
+		for (const scope of scopes) {
+			const prefix = prefixOf(scope.dir);
+			const nestedScopes = scopes
+				.filter((other) => other !== scope && other.dir.startsWith(prefix))
+				.map((other) => `${other.dir}/**`);
+			// Explicit targets win over the scope's own ones
+			const scopeTargets = options.targets ?? scope.targets;
+			const rules = (
+				scopeTargets ??
+				(await getPluginTargets(plugins, {
+					...pluginContext,
+					dir: scope.dir,
+				}))
+			).map(parseTarget);
+			const negations = rules
+				.filter((rule) => rule.negate)
+				.flatMap((rule) => [
+					`${prefix}${rule.glob}`,
+					`${prefix}${rule.glob}/**`,
+				]);
+			const ignore = [
+				...finalIgnore,
+				...(scope.ignore ?? []).map((pattern) => `${prefix}${pattern}`),
+				...nestedScopes,
+				...negations,
+			];
+
+			// glob options apply to a whole call, so targets are grouped by restrictions
+			const groups = new Map<string, TargetRule[]>();
+			for (const rule of rules.filter((rule) => !rule.negate)) {
+				const key = `${rule.type ?? ""}:${rule.maxDepth ?? ""}`;
+				groups.set(key, [...(groups.get(key) ?? []), rule]);
+			}
+
+			for (const group of groups.values()) {
+				const { type, maxDepth } = group[0] as TargetRule;
+				const globPatterns = group.map(
+					// A trailing slash only matches directories
+					(rule) => `${prefix}${rule.glob}${type === "dir" ? "/" : ""}`,
+				);
+				const paths = await glob(globPatterns, {
+					cwd: rootDir,
+					dot: true,
+					ignore,
+					...(type === "file" && { nodir: true }),
+					...(maxDepth !== undefined && {
+						maxDepth: maxDepth + scopeDepthOf(scope.dir),
+					}),
+				});
+				for (const path of paths) {
+					scopeByPath.set(path.replace(/\\/g, "/"), scope);
+				}
+			}
+		}
+	}
+
+	let topLevelPaths = deduplicatePaths([...scopeByPath.keys()]);
+
+	// Self-protection filter: protect purgo-cli and any user-defined excluded packages
+	const protectSelf = config.protectSelf ?? true;
+	if (protectSelf) {
+		const protectedDirs = getProtectedDirs(config);
+		if (protectedDirs.length > 0) {
+			topLevelPaths = topLevelPaths.filter((rel) => {
+				// Compare against absolute path
+				const abs = resolve(rootDir, rel);
+				return !shouldProtectPath(abs, protectedDirs);
+			});
+		}
+	}
+
+	const skipped: SkippedTarget[] = [];
+
+	// Unlike protectSelf, the protect list cannot be turned off
+	if (config.protect && config.protect.length > 0) {
+		const protectedPaths = await resolveProtectedPaths(config.protect, rootDir);
+		topLevelPaths = topLevelPaths.filter((path) => {
+			if (!shouldProtectPath(resolve(rootDir, path), protectedPaths)) {
+				return true;
+			}
+			skipped.push({ path, reason: "protected by the protect list" });
+			return false;
+		});
+	}
+
+	// Symlinks and mounts could lead a deletion out of the project
+	const pathGuard = await PathGuard.create(rootDir);
+	const unsafeReasons = await Promise.all(
+		topLevelPaths.map((path) => pathGuard.check(resolve(rootDir, path))),
+	);
+	topLevelPaths = topLevelPaths.filter((path, index) => {
+		const reason = unsafeReasons[index];
+		if (!reason) return true;
+		skipped.push({ path, reason });
+		return false;
+	});
+
+	// Ignored files can still be tracked when force-added, so gitignored mode checks too
+	if ((options.gitSafe ?? config.gitSafe ?? false) || gitignored) {
+		onProgress?.("Checking files tracked by git...");
+		const trackedPaths = await findTrackedPaths(rootDir, topLevelPaths);
+		topLevelPaths = topLevelPaths.filter((path) => {
+			if (!trackedPaths.has(path)) return true;
+			skipped.push({ path, reason: "contains files tracked by git" });
+			return false;
+		});
+	}
+
+	const pluginReasons = await Promise.all(
+		topLevelPaths.map((path) =>
+			filterWithPlugins(
+				plugins,
+				{
+					path,
+					absolutePath: resolve(rootDir, path),
+					workspace: scopeByPath.get(path)?.name,
+				},
+				pluginContext,
+			),
+		),
+	);
+	topLevelPaths = topLevelPaths.filter((path, index) => {
+		const reason = pluginReasons[index];
+		if (!reason) return true;
+		skipped.push({ path, reason });
+		return false;
+	});
+
+	const minAgeSetting = options.olderThan ?? config.minAge;
+	const activityTracker = new ActivityTracker(
+		options.useGitAge ?? config.useGitAge ?? false,
+	);
+	const lastActivityByPath = new Map(
+		await Promise.all(
+			topLevelPaths.map(
+				async (path) =>
+					[
+						path,
+						await activityTracker.getLastActivity(resolve(rootDir, path)),
+					] as const,
+			),
+		),
+	);
+
+	if (minAgeSetting !== undefined) {
+		const minAge = parseDuration(minAgeSetting);
+		const minAgeLabel =
+			typeof minAgeSetting === "number" ? `${minAgeSetting}d` : minAgeSetting;
+		const now = new Date();
+		topLevelPaths = topLevelPaths.filter((path) => {
+			const lastActivity = lastActivityByPath.get(path);
+			if (isOlderThan(lastActivity, minAge, now)) return true;
+			skipped.push({
+				path,
+				reason: lastActivity
+					? `touched ${formatAge(lastActivity, now)}, within ${minAgeLabel}`
+					: "last activity unknown",
+			});
+			return false;
+		});
+	}
+
+	if (topLevelPaths.length === 0) {
+		return { targets: [], skipped };
+	}
+
+	if (sizeMode !== "none") {
+		onProgress?.(
+			sizeMode === "estimate"
+				? "Estimating target sizes..."
+				: "Calculating target sizes...",
+		);
+	}
+
+	const sizeCache =
+		sizeMode === "exact" && config.sizeCache !== false
+			? await SizeCache.load()
+			: undefined;
+	const measuredTargets = await mapWithConcurrency(
+		topLevelPaths,
+		options.concurrency ?? config.concurrency ?? getDefaultConcurrency(),
+		async (path) => ({
+			path,
+			size: await measureSize(resolve(rootDir, path), sizeMode, sizeCache),
+			...(sizeMode !== "exact" && { sizeMode }),
+			lastActivity: lastActivityByPath.get(path),
+			workspace: scopeByPath.get(path)?.name,
+		}),
+	);
+	await sizeCache?.save();
+
+	const { selected, skipped: skippedBySize } = selectBySize(measuredTargets, {
+		minSize:
+			minSizeSetting === undefined ? undefined : parseSize(minSizeSetting),
+		free: options.free === undefined ? undefined : parseSize(options.free),
+		maxTotal:
+			options.maxTotal === undefined ? undefined : parseSize(options.maxTotal),
+	});
+
+	return { targets: selected, skipped: [...skipped, ...skippedBySize] };
+}
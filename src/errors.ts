@@ -0,0 +1,36 @@
+/**
+ * Thrown when a hook command fails. Only preClean, postClean and postReinstall
+ * failures stop the cleanup; the other hooks' failures are recorded in the result
+ * or, for onError and onCancel, ignored.
+ */
+export class HookError extends Error {
+	/** The name of the hook that failed (e.g. 'preClean'). */
+	readonly hookName: string;
+
+	constructor(hookName: string, message: string) {
+		super(message);
+		this.name = "HookError";
+		this.hookName = hookName;
+	}
+}
+
+/**
+ * Thrown when a configuration file is invalid or cannot be resolved.
+ */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfigError";
+	}
+}
+
+/**
+ * Thrown when a cleanup is refused because its root is too broad to be safe,
+ * such as the filesystem root or the home directory.
+ */
+export class GuardrailError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "GuardrailError";
+	}
+}
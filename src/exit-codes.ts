@@ -0,0 +1,57 @@
+import { ConfigError, GuardrailError, HookError } from "./errors";
+import type { CleanResult } from "./index";
+
+/**
+ * Process exit codes of the `clean` command.
+ */
+export const EXIT_CODES = {
+	/** Cleanup completed (or there was nothing to do). */
+	success: 0,
+	/** Unexpected error. */
+	error: 1,
+	/** Some targets could not be removed. */
+	partialFailure: 2,
+	/** The user declined the confirmation prompt. */
+	cancelled: 3,
+	/** The preClean hook failed; nothing was removed. */
+	preHookFailed: 4,
+	/** A hook run after the cleanup (postClean, postReinstall) failed. */
+	postHookFailed: 5,
+	/** Dependencies could not be reinstalled. */
+	reinstallFailed: 6,
+	/** The configuration is invalid. */
+	configInvalid: 7,
+	/** The root is too broad to clean (e.g. / or the home directory). */
+	unsafeRoot: 8,
+} as const;
+
+/**
+ * One of the documented exit codes.
+ */
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Maps the outcome of a cleanup to an exit code.
+ * @param result The result returned by `cleanProject`
+ */
+export function getResultExitCode(result: CleanResult): ExitCode {
+	if (result.errors.length > 0) return EXIT_CODES.partialFailure;
+	if (result.reinstall?.status === "failed") return EXIT_CODES.reinstallFailed;
+	if (result.status === "cancelled") return EXIT_CODES.cancelled;
+	return EXIT_CODES.success;
+}
+
+/**
+ * Maps an error thrown by `cleanProject` to an exit code.
+ * @param error The thrown value
+ */
+export function getErrorExitCode(error: unknown): ExitCode {
+	if (error instanceof HookError) {
+		return error.hookName === "preClean"
+			? EXIT_CODES.preHookFailed
+			: EXIT_CODES.postHookFailed;
+	}
+	if (error instanceof ConfigError) return EXIT_CODES.configInvalid;
+	if (error instanceof GuardrailError) return EXIT_CODES.unsafeRoot;
+	return EXIT_CODES.error;
+}
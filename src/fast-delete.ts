@@ -0,0 +1,71 @@
+import { spawn } from "node:child_process";
+import { rename } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { glob } from "glob";
+
+/**
+ * Name prefix of the directories targets are moved to by fast deletion.
+ */
+export const FAST_TRASH_PREFIX = ".purgo-trash-";
+
+// Run by the detached process; paths come through the environment to avoid quoting issues
+const REMOVE_SCRIPT = `const { rm } = require("node:fs/promises");
+const paths = JSON.parse(process.env.PURGO_REMOVE_PATHS || "[]");
+Promise.all(paths.map((p) => rm(p, { recursive: true, force: true }).catch(() => {})));`;
+
+let counter = 0;
+
+/**
+ * Renames a target to a hidden sibling directory, so it disappears from the
+ * project at once. The rename stays on the same filesystem, hence is atomic.
+ * @param absolutePath Absolute path of the target
+ * @returns The new path of the target
+ */
+export async function moveAside(absolutePath: string): Promise<string> {
+	const id = `${Date.now().toString(36)}-${process.pid.toString(36)}-${(counter++).toString(36)}`;
+	const asidePath = join(
+		dirname(absolutePath),
+		`${FAST_TRASH_PREFIX}${id}-${basename(absolutePath)}`,
+	);
+	await rename(absolutePath, asidePath);
+	return asidePath;
+}
+
+/**
+ * Removes paths from a detached process that outlives the CLI.
+ * Failures are ignored: whatever is left gets swept by the next run.
+ * @param paths Absolute paths to remove
+ */
+export function removeInBackground(paths: string[]): void {
+	if (paths.length === 0) return;
+
+	const child = spawn(process.execPath, ["-e", REMOVE_SCRIPT], {
+		detached: true,
+		stdio: "ignore",
+		windowsHide: true,
+		env: { ...process.env, PURGO_REMOVE_PATHS: JSON.stringify(paths) },
+	});
+	child.unref();
+}
+
+/**
+ * Finds the targets left behind by fast deletions whose background removal
+ * did not complete (e.g. the machine was shut down).
+ * @param rootDir The project root
+ * @returns Absolute paths of the leftovers
+ */
+export async function findFastTrash(rootDir: string): Promise<string[]> {
+	const paths = await glob(`**/${FAST_TRASH_PREFIX}*`, {
+		cwd: rootDir,
+		dot: true,
+		// Unlike a "dir/**" pattern, this still lets the leftover itself match
+		ignore: {
+			childrenIgnored: (path) =>
+				path.name.startsWith(FAST_TRASH_PREFIX) ||
+				path.name === ".git" ||
+				// Targets such as node_modules/.vite leave their leftovers in node_modules itself
+				path.parent?.name === "node_modules",
+		},
+	});
+	return paths.map((path) => resolve(rootDir, path));
+}
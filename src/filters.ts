@@ -0,0 +1,204 @@
+import { stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import prettyBytes from "pretty-bytes";
+import * as v from "valibot";
+import { getLastCommitDate } from "./git";
+import type { SizeMode } from "./sizes";
+import type { SkippedTarget } from "./ui";
+import { parseDuration, parseSize } from "./utils";
+
+const isParseable =
+	(parse: (value: string) => number) =>
+	(value: string): boolean => {
+		try {
+			parse(value);
+			return true;
+		} catch {
+			return false;
+		}
+	};
+
+export const durationSchema = v.union([
+	v.pipe(
+		v.string(),
+		v.check(
+			isParseable(parseDuration),
+			'Invalid duration. Use a number followed by ms, s, m, h, d or w (e.g. "7d")',
+		),
+	),
+	v.pipe(v.number(), v.minValue(0)),
+]);
+
+export const sizeSchema = v.union([
+	v.pipe(
+		v.string(),
+		v.check(
+			isParseable(parseSize),
+			'Invalid size. Use a number followed by B, KB, MB, GB or TB (e.g. "50MB")',
+		),
+	),
+	v.pipe(v.number(), v.minValue(0)),
+]);
+
+/**
+ * A duration such as "12h", "7d" or "2w". A bare number is a number of days.
+ */
+export type Duration = v.InferOutput<typeof durationSchema>;
+
+/**
+ * A size such as "500KB", "50MB" or "2GB". A bare number is a number of bytes.
+ */
+export type Size = v.InferOutput<typeof sizeSchema>;
+
+/**
+ * Size-based selection rules, all in bytes.
+ */
+export interface SizeSelectionOptions {
+	/** Skips targets smaller than this. */
+	minSize?: number;
+	/** Picks targets until at least this many bytes would be freed. */
+	free?: number;
+	/** Never selects more than this many bytes in total. */
+	maxTotal?: number;
+}
+
+/**
+ * A target with a known size, as handled by `selectBySize`.
+ */
+export interface SizedTarget {
+	path: string;
+	size: number;
+	/** How the size was obtained, when it is not an exact measure. */
+	sizeMode?: Exclude<SizeMode, "exact">;
+	lastActivity?: Date;
+	workspace?: string;
+}
+
+/**
+ * Finds when targets were last touched: their mtime and, optionally, the last
+ * commit of the git repository they live in. The atime is left out, since
+ * searching for targets reads them and refreshes it on most mounts.
+ */
+export class ActivityTracker {
+	private readonly useGit: boolean;
+	private readonly commitDates = new Map<string, Promise<Date | undefined>>();
+
+	/**
+	 * @param useGit If true, a recent commit in the surrounding repository counts as activity
+	 */
+	constructor(useGit = false) {
+		this.useGit = useGit;
+	}
+
+	/**
+	 * Returns the last activity date of a target.
+	 * @param absolutePath Absolute path of the target
+	 * @returns The date, or undefined when the target cannot be inspected
+	 */
+	async getLastActivity(absolutePath: string): Promise<Date | undefined> {
+		let stats: { mtime?: Date };
+		try {
+			stats = await stat(absolutePath);
+		} catch {
+			return undefined;
+		}
+
+		const dates = [stats.mtime];
+		if (this.useGit) {
+			dates.push(await this.getCommitDate(dirname(absolutePath)));
+		}
+
+		const times = dates
+			.filter((date): date is Date => date instanceof Date)
+			.map((date) => date.getTime())
+			.filter(Number.isFinite);
+		return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+	}
+
+	private getCommitDate(dir: string): Promise<Date | undefined> {
+		let date = this.commitDates.get(dir);
+		if (!date) {
+			date = getLastCommitDate(dir);
+			this.commitDates.set(dir, date);
+		}
+		return date;
+	}
+}
+
+/**
+ * Tells whether a target has been left untouched for at least a given time.
+ * Targets whose activity is unknown are never considered old enough.
+ * @param lastActivity Last activity date of the target
+ * @param minAge Minimum age in milliseconds
+ * @param now Reference date, defaults to the current time
+ */
+export function isOlderThan(
+	lastActivity: Date | undefined,
+	minAge: number,
+	now: Date = new Date(),
+): boolean {
+	if (!lastActivity) return false;
+	return now.getTime() - lastActivity.getTime() >= minAge;
+}
+
+const byLargestThenOldest = (a: SizedTarget, b: SizedTarget): number =>
+	b.size - a.size ||
+	(a.lastActivity?.getTime() ?? 0) - (b.lastActivity?.getTime() ?? 0);
+
+/**
+ * Applies size thresholds and budgets to a list of targets.
+ * With `free` or `maxTotal`, targets are considered largest first (oldest first
+ * on ties) and picked until the goal is reached or the budget is exhausted.
+ * @param targets Targets with their size in bytes
+ * @param options Size rules
+ * @returns The selected targets, in their original order, and the skipped ones with a reason
+ */
+export function selectBySize<T extends SizedTarget>(
+	targets: T[],
+	options: SizeSelectionOptions,
+): { selected: T[]; skipped: SkippedTarget[] } {
+	const { minSize, free, maxTotal } = options;
+	const skipped: SkippedTarget[] = [];
+
+	let candidates = targets;
+	if (minSize !== undefined) {
+		candidates = targets.filter((target) => {
+			if (target.size >= minSize) return true;
+			skipped.push({
+				path: target.path,
+				reason: `${prettyBytes(target.size)} is below the minimum size of ${prettyBytes(minSize)}`,
+			});
+			return false;
+		});
+	}
+
+	if (free === undefined && maxTotal === undefined) {
+		return { selected: candidates, skipped };
+	}
+
+	const picked = new Set<T>();
+	let total = 0;
+	for (const target of [...candidates].sort(byLargestThenOldest)) {
+		if (free !== undefined && total >= free) {
+			skipped.push({
+				path: target.path,
+				reason: `goal of ${prettyBytes(free)} already reached`,
+			});
+			continue;
+		}
+		if (maxTotal !== undefined && total + target.size > maxTotal) {
+			skipped.push({
+				path: target.path,
+				reason: `would exceed the maximum total of ${prettyBytes(maxTotal)}`,
+			});
+			continue;
+		}
+		picked.add(target);
+		total += target.size;
+	}
+
+	return {
+		selected: candidates.filter((target) => picked.has(target)),
+		skipped,
+	};
+}
@@ -0,0 +1,111 @@
+import { execa } from "execa";
+
+/**
+ * Returns the date of the last commit of the git repository containing a directory.
+ * @param cwd Any directory inside the repository
+ * @returns The commit date, or undefined outside a repository (or without commits)
+ */
+export async function getLastCommitDate(
+	cwd: string,
+): Promise<Date | undefined> {
+	try {
+		const { stdout } = await execa("git", ["log", "-1", "--format=%ct"], {
+			cwd,
+		});
+		const seconds = Number(stdout.trim());
+		return seconds > 0 ? new Date(seconds * 1000) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Finds which paths contain files tracked by git.
+ * @param cwd Directory the paths are relative to
+ * @param paths Files or directories, relative to cwd
+ * @returns The paths that are tracked or contain tracked files; empty outside a repository
+ * @throws {Error} If git could not be run, since tracked files cannot be ruled out
+ */
+export async function findTrackedPaths(
+	cwd: string,
+	paths: string[],
+): Promise<Set<string>> {
+	if (paths.length === 0) return new Set();
+
+	let stdout: string;
+	try {
+		({ stdout } = await execa(
+			"git",
+			["--literal-pathspecs", "ls-files", "-z", "--", ...paths],
+			{ cwd },
+		));
+	} catch (error) {
+		const stderr = (error as { stderr?: string }).stderr ?? "";
+		if (stderr.includes("not a git repository")) return new Set();
+		throw new Error(
+			`Could not list the files tracked by git in ${cwd}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+
+	const trackedFiles = stdout.split("\0").filter(Boolean);
+	return new Set(
+		paths.filter((path) =>
+			trackedFiles.some((file) => file === path || file.startsWith(`${path}/`)),
+		),
+	);
+}
+
+/**
+ * Finds which paths hold uncommitted work: modified, staged or untracked files
+ * that are not ignored, as reported by `git status`.
+ * @param cwd Directory the paths are relative to
+ * @param paths Files or directories, relative to cwd
+ * @returns The paths with uncommitted work; empty outside a repository or when git is unavailable
+ */
+export async function findDirtyPaths(
+	cwd: string,
+	paths: string[],
+): Promise<Set<string>> {
+	if (paths.length === 0) return new Set();
+
+	try {
+		// Porcelain paths are relative to the repository root, not to cwd
+		const { stdout: prefix } = await execa(
+			"git",
+			["rev-parse", "--show-prefix"],
+			{ cwd },
+		);
+		const { stdout } = await execa(
+			"git",
+			["--literal-pathspecs", "status", "--porcelain", "-z", "--", ...paths],
+			{ cwd },
+		);
+
+		const changedFiles: string[] = [];
+		const entries = stdout.split("\0");
+		for (let i = 0; i < entries.length; i++) {
+			const entry = entries[i];
+			if (!entry) continue;
+			// Renames and copies are followed by their original path
+			if (entry.startsWith("R") || entry.startsWith("C")) i++;
+			const file = entry.slice(3);
+			if (file.startsWith(prefix)) {
+				changedFiles.push(file.slice(prefix.length));
+			}
+		}
+
+		return new Set(
+			paths.filter((path) =>
+				changedFiles.some(
+					(file) =>
+						file === path ||
+						file.startsWith(`${path}/`) ||
+						// Untracked directories are listed as a whole, with a trailing slash
+						(file.endsWith("/") && path.startsWith(file)),
+				),
+			),
+		);
+	} catch {
+		return new Set();
+	}
+}
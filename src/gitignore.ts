@@ -0,0 +1,137 @@
+import type { Dirent } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { globToRegExp } from "./utils";
+
+/**
+ * Ignored paths that are never offered for deletion in `gitignored` mode,
+ * as they usually hold secrets or personal settings rather than artifacts.
+ */
+export const GITIGNORED_KEEP = [
+	".env",
+	".env.*",
+	"*.local",
+	"*.pem",
+	"*.key",
+	".idea",
+	".vscode",
+];
+
+/**
+ * A single rule of a .gitignore file.
+ */
+export interface GitignoreRule {
+	/** Directory of the .gitignore, relative to the root ("" for the root itself). */
+	base: string;
+	/** Matches paths relative to `base`. */
+	regExp: RegExp;
+	/** True for `!pattern` rules, which re-include paths. */
+	negate: boolean;
+	/** True for `pattern/` rules, which only match directories. */
+	dirOnly: boolean;
+}
+
+/**
+ * Parses the content of a .gitignore file.
+ * @param content The file content
+ * @param base Directory of the file, relative to the root, with forward slashes
+ * @returns The rules, in file order
+ */
+export function parseGitignore(content: string, base = ""): GitignoreRule[] {
+	const rules: GitignoreRule[] = [];
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		// Trailing spaces are ignored unless escaped
+		let pattern = rawLine.replace(/(?<!\\)\s+$/, "");
+		if (!pattern || pattern.startsWith("#")) continue;
+
+		const negate = pattern.startsWith("!");
+		if (negate) pattern = pattern.slice(1);
+		if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+			pattern = pattern.slice(1);
+		}
+
+		const dirOnly = pattern.endsWith("/");
+		pattern = pattern.replace(/\/+$/, "");
+		// A slash anywhere but at the end anchors the pattern to the .gitignore directory
+		const anchored = pattern.includes("/");
+		pattern = pattern.replace(/^\//, "");
+		if (!pattern) continue;
+
+		rules.push({
+			base,
+			regExp: globToRegExp(anchored ? pattern : `**/${pattern}`),
+			negate,
+			dirOnly,
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Tells whether a path is ignored by a set of rules; the last matching rule wins.
+ * @param path Path relative to the root, with forward slashes
+ * @param isDir Whether the path is a directory
+ * @param rules Rules from the root down to the path's directory
+ */
+export function isGitignored(
+	path: string,
+	isDir: boolean,
+	rules: GitignoreRule[],
+): boolean {
+	let ignored = false;
+	for (const rule of rules) {
+		if (rule.dirOnly && !isDir) continue;
+		const prefix = rule.base ? `${rule.base}/` : "";
+		if (!path.startsWith(prefix)) continue;
+		if (rule.regExp.test(path.slice(prefix.length))) {
+			ignored = !rule.negate;
+		}
+	}
+	return ignored;
+}
+
+const keepRegExps = GITIGNORED_KEEP.map((pattern) => globToRegExp(pattern));
+
+/**
+ * Walks a project and returns the paths ignored by its .gitignore files,
+ * nested ones included. Ignored directories are returned as a whole, without
+ * looking inside them; `.git` and `GITIGNORED_KEEP` entries are never returned.
+ * @param rootDir The project root
+ * @returns Ignored paths relative to rootDir, with forward slashes
+ */
+export async function findGitignoredPaths(rootDir: string): Promise<string[]> {
+	const found: string[] = [];
+
+	const walk = async (dir: string, inherited: GitignoreRule[]) => {
+		const content = await readFile(
+			join(rootDir, dir, ".gitignore"),
+			"utf-8",
+		).catch(() => "");
+		const rules = [...inherited, ...parseGitignore(content, dir)];
+
+		let entries: Dirent[];
+		try {
+			entries = await readdir(join(rootDir, dir), { withFileTypes: true });
+		} catch {
+			return;
+		}
+
+		for (const entry of entries) {
+			if (entry.name === ".git") continue;
+			if (keepRegExps.some((regExp) => regExp.test(entry.name))) continue;
+
+			const path = dir ? `${dir}/${entry.name}` : entry.name;
+			const isDir = entry.isDirectory();
+			if (isGitignored(path, isDir, rules)) {
+				found.push(path);
+			} else if (isDir) {
+				await walk(path, rules);
+			}
+		}
+	};
+
+	await walk("", []);
+	return found;
+}
@@ -0,0 +1,165 @@
+import { realpath } from "node:fs/promises";
+import { dirname, join, parse, resolve, sep } from "node:path";
+import { glob, hasMagic } from "glob";
+import prettyBytes from "pretty-bytes";
+import * as v from "valibot";
+import { sizeSchema } from "./filters";
+import { getHomeDir, parseSize } from "./utils";
+
+export const guardrailsConfigSchema = v.object({
+	maxTargets: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+	maxSize: v.optional(sizeSchema),
+});
+
+/**
+ * Ceilings above which a cleanup needs an explicit confirmation, even with `force`.
+ */
+export type GuardrailsConfig = v.InferOutput<typeof guardrailsConfigSchema>;
+
+export const DEFAULT_GUARDRAILS: Required<GuardrailsConfig> = {
+	maxTargets: 500,
+	maxSize: "50GB",
+};
+
+// System directories whose whole tree is off limits
+const SYSTEM_TREES_POSIX = [
+	"/bin",
+	"/boot",
+	"/dev",
+	"/etc",
+	"/lib",
+	"/lib32",
+	"/lib64",
+	"/proc",
+	"/sbin",
+	"/sys",
+	"/usr",
+	"/System",
+	"/Library",
+	"/private/etc",
+];
+
+// Directories holding projects, which are fine to clean, but not as a whole
+const CONTAINER_DIRS_POSIX = [
+	"/home",
+	"/Users",
+	"/var",
+	"/opt",
+	"/srv",
+	"/mnt",
+	"/media",
+	"/Volumes",
+	"/private",
+	"/private/tmp",
+	"/private/var",
+	"/tmp",
+];
+
+const getSystemTrees = (): string[] =>
+	process.platform === "win32"
+		? [
+				process.env.SystemRoot ?? "C:\\Windows",
+				process.env.ProgramFiles ?? "C:\\Program Files",
+				process.env["ProgramFiles(x86)"] ?? "C:\\Program Files (x86)",
+				process.env.ProgramData ?? "C:\\ProgramData",
+			]
+		: SYSTEM_TREES_POSIX;
+
+const normalize = (path: string): string => {
+	const resolved = resolve(path);
+	return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+};
+
+const isSameOrInside = (path: string, dir: string): boolean =>
+	path === dir || path.startsWith(`${dir}${sep}`);
+
+/**
+ * Tells whether a directory is too broad to be cleaned: the filesystem root,
+ * the home directory (or the one holding every home), or a system directory.
+ * @param rootDir The directory a cleanup would run in
+ * @returns What the directory is, or null when it is fine to clean
+ */
+export async function describeDangerousRoot(
+	rootDir: string,
+): Promise<string | null> {
+	const candidates = [
+		...new Set([
+			normalize(rootDir),
+			normalize(await realpath(rootDir).catch(() => rootDir)),
+		]),
+	];
+	const home = getHomeDir();
+
+	for (const dir of candidates) {
+		if (dir === parse(dir).root) return "the filesystem root";
+		if (home && dir === normalize(home)) return "your home directory";
+		if (home && dir === normalize(dirname(home))) {
+			return "the directory holding every home directory";
+		}
+		if (getSystemTrees().some((tree) => isSameOrInside(dir, normalize(tree)))) {
+			return "a system directory";
+		}
+		if (
+			process.platform !== "win32" &&
+			CONTAINER_DIRS_POSIX.some((container) => dir === container)
+		) {
+			return "a system directory";
+		}
+	}
+	return null;
+}
+
+/**
+ * Tells whether a cleanup goes beyond the guardrails.
+ * @param count How many targets would be deleted
+ * @param totalSize Their combined size in bytes, 0 when unknown
+ * @param guardrails Configured ceilings, merged over the defaults
+ * @returns A sentence describing the exceeded ceiling, or null
+ */
+export function describeExceededGuardrail(
+	count: number,
+	totalSize: number,
+	guardrails: GuardrailsConfig = {},
+): string | null {
+	const maxTargets = guardrails.maxTargets ?? DEFAULT_GUARDRAILS.maxTargets;
+	const maxSize = guardrails.maxSize ?? DEFAULT_GUARDRAILS.maxSize;
+	if (count > maxTargets) {
+		return `This cleanup would delete ${count} targets, more than the guardrail of ${maxTargets}.`;
+	}
+	const maxBytes = parseSize(maxSize);
+	if (totalSize > maxBytes) {
+		return `This cleanup would free ${prettyBytes(totalSize)}, more than the guardrail of ${prettyBytes(maxBytes)}.`;
+	}
+	return null;
+}
+
+/**
+ * Resolves the entries of the `protect` list to the absolute paths they stand for.
+ * `~/` stands for the home directory and relative entries are relative to the
+ * project root. Globs are expanded against the filesystem.
+ * @param patterns Entries of the `protect` list
+ * @param rootDir The project root
+ * @returns Absolute paths to keep, along with whatever they contain or are contained in
+ */
+export async function resolveProtectedPaths(
+	patterns: string[],
+	rootDir: string,
+): Promise<string[]> {
+	const absolute = patterns.map((pattern) =>
+		pattern === "~" || pattern.startsWith("~/")
+			? join(getHomeDir(), pattern.slice(1))
+			: resolve(rootDir, pattern),
+	);
+	const globs = absolute
+		.filter((pattern) => hasMagic(pattern, { windowsPathsNoEscape: true }))
+		.map((pattern) => pattern.replace(/\\/g, "/"));
+	const matches =
+		globs.length > 0 ? await glob(globs, { absolute: true, dot: true }) : [];
+
+	return [
+		...absolute.filter(
+			(pattern) => !hasMagic(pattern, { windowsPathsNoEscape: true }),
+		),
+		...matches,
+	];
+}
@@ -1,50 +1,283 @@
 import * as os from "node:os";
+import { resolve } from "node:path";
 import chalk from "chalk";
 import { execa } from "execa";
 import * as v from "valibot";
+import type { PurgoConfig } from "./config";
+import { HookError } from "./errors";
+import type { ErrorItem } from "./ui";
+import { parseDuration } from "./utils";
+
+/**
+ * Lifecycle events a hook can be attached to:
+ * - 'preClean' / 'postClean': before the search and after the deletion
+ * - 'preDelete' / 'postDelete': around the removal of each target
+ * - 'onError': some targets could not be removed
+ * - 'onCancel': the cleanup was cancelled at a confirmation
+ * - 'preReinstall' / 'postReinstall': around the reinstall of dependencies
+ */
+export const HOOK_NAMES = [
+	"preClean",
+	"postClean",
+	"preDelete",
+	"postDelete",
+	"onError",
+	"onCancel",
+	"preReinstall",
+	"postReinstall",
+] as const;
+
+/**
+ * Name of a lifecycle event.
+ */
+export type HookName = (typeof HOOK_NAMES)[number];
+
+const isDuration = (value: string): boolean => {
+	try {
+		parseDuration(value);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+const hookCommandsSchema = v.union([v.string(), v.array(v.string())]);
+
+export const hookSchema = v.union([
+	hookCommandsSchema,
+	v.custom<HookFunction>(
+		(value) => typeof value === "function",
+		"Invalid hook. Use a command, a list of commands, an object or a function",
+	),
+	v.object({
+		run: hookCommandsSchema,
+		cwd: v.optional(v.string()),
+		timeout: v.optional(
+			v.pipe(
+				v.string(),
+				v.check(
+					isDuration,
+					'Invalid timeout. Use a number followed by ms, s, m or h (e.g. "30s")',
+				),
+			),
+		),
+		continueOnError: v.optional(v.boolean()),
+	}),
+]);
+
+/**
+ * A hook: a shell command, several commands run in order, a function (in
+ * JavaScript and TypeScript configs) or an object with:
+ * - run: the command(s)
+ * - cwd: where they run, relative to the project root (default: the project root)
+ * - timeout: how long each command may run, e.g. "30s"
+ * - continueOnError: if true, a failing command is reported and the cleanup goes on
+ */
+export type Hook = v.InferOutput<typeof hookSchema>;
 
 export const hookExecutorSchema = v.object({
-	preClean: v.optional(v.string()),
-	postClean: v.optional(v.string()),
+	preClean: v.optional(hookSchema),
+	postClean: v.optional(hookSchema),
+	preDelete: v.optional(hookSchema),
+	postDelete: v.optional(hookSchema),
+	onError: v.optional(hookSchema),
+	onCancel: v.optional(hookSchema),
+	preReinstall: v.optional(hookSchema),
+	postReinstall: v.optional(hookSchema),
 });
 
 /**
- * Configuration for pre and post-clean hooks.
+ * Hooks of each lifecycle event.
  */
 export type HookExecutor = v.InferOutput<typeof hookExecutorSchema>;
 
 /**
- * Executes a hook command in a shell.
- * @param hookCommand The shell command to execute
+ * What a hook is told about the cleanup. Commands receive it through `PURGO_*`
+ * environment variables, functions as their argument.
+ */
+export interface HookContext {
+	/** Targets to delete, relative to the project root, with their size in bytes (`PURGO_TARGETS`, one per line). */
+	targets?: { path: string; size: number }[];
+	/** Targets removed so far (`PURGO_DELETED`, one per line). */
+	deleted?: string[];
+	/** Bytes freed so far (`PURGO_FREED_BYTES`). */
+	freedBytes?: number;
+	/** Targets that could not be removed (`PURGO_ERROR_COUNT`). */
+	errors?: ErrorItem[];
+	/** The target a per-target hook runs for (`PURGO_TARGET`, `PURGO_TARGET_PATH`, `PURGO_TARGET_SIZE`). */
+	target?: { path: string; absolutePath: string; size: number };
+	/** Package manager reinstalling dependencies (`PURGO_PACKAGE_MANAGER`). */
+	packageManager?: string;
+	/** The merged configuration of the project (functions only). */
+	config?: PurgoConfig;
+}
+
+/**
+ * Argument of a function hook.
+ */
+export interface HookFunctionContext extends HookContext {
+	/** The name of the running hook. */
+	hook: string;
+	/** Absolute path of the project root. */
+	rootDir: string;
+}
+
+/**
+ * A hook written as a function, in a JavaScript or TypeScript config.
+ * A `preDelete` function returning `false` keeps its target; a thrown error
+ * fails the hook like a failing command.
+ */
+export type HookFunction = (
+	context: HookFunctionContext,
+) => undefined | boolean | Promise<undefined | boolean>;
+
+/**
+ * Options for executing a hook.
+ */
+export interface ExecuteHookOptions {
+	/** If true, skips status messages and redirects the hook's stdout to stderr. */
+	silent?: boolean;
+	/** What the hook is told about the cleanup. */
+	context?: HookContext;
+}
+
+/**
+ * Builds the environment variables describing a cleanup to a hook.
+ * @param hookName The name of the hook
+ * @param rootDir The project root
+ * @param context What the hook is told about the cleanup
+ * @returns Variables added to the inherited environment
+ */
+export function getHookEnv(
+	hookName: string,
+	rootDir: string,
+	context: HookContext = {},
+): Record<string, string> {
+	const env: Record<string, string> = {
+		PURGO_HOOK: hookName,
+		PURGO_ROOT_DIR: resolve(rootDir),
+	};
+	if (context.targets) {
+		env.PURGO_TARGETS = context.targets.map((target) => target.path).join("\n");
+		env.PURGO_TARGET_COUNT = String(context.targets.length);
+	}
+	if (context.deleted) {
+		env.PURGO_DELETED = context.deleted.join("\n");
+		env.PURGO_DELETED_COUNT = String(context.deleted.length);
+	}
+	if (context.freedBytes !== undefined) {
+		env.PURGO_FREED_BYTES = String(context.freedBytes);
+	}
+	if (context.errors) {
+		env.PURGO_ERROR_COUNT = String(context.errors.length);
+	}
+	if (context.target) {
+		env.PURGO_TARGET = context.target.path;
+		env.PURGO_TARGET_PATH = context.target.absolutePath;
+		env.PURGO_TARGET_SIZE = String(context.target.size);
+	}
+	if (context.packageManager) {
+		env.PURGO_PACKAGE_MANAGER = context.packageManager;
+	}
+	return env;
+}
+
+const normalizeHook = (hook: Exclude<Hook, HookFunction>) =>
+	typeof hook === "string" || Array.isArray(hook) ? { run: hook } : hook;
+
+const runHookFunction = async (
+	hook: HookFunction,
+	hookName: string,
+	cwd: string,
+	options: ExecuteHookOptions,
+): Promise<boolean> => {
+	const { silent = false, context } = options;
+	if (!silent) console.log(chalk.cyan(`Running ${hookName} hook`));
+
+	try {
+		const proceed = await hook({
+			...context,
+			hook: hookName,
+			rootDir: resolve(cwd),
+		});
+		if (!silent) console.log(chalk.green(`✓ ${hookName} hook completed`));
+		return proceed !== false;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		console.error(chalk.red(`✗ ${hookName} hook failed: ${errorMessage}`));
+		throw new HookError(
+			hookName,
+			`Hook "${hookName}" failed to execute: ${errorMessage}`,
+		);
+	}
+};
+
+/**
+ * Executes a hook: calls its function, or runs its commands in a shell one after the other.
+ * @param hook The hook to execute
  * @param hookName The name of the hook (for logging)
- * @param cwd The working directory where the command will run
- * @throws Error if the hook command fails
+ * @param cwd The project root, where the commands run unless the hook sets its own `cwd`
+ * @param options Execution options
+ * @returns false when a function hook returned false, true otherwise
+ * @throws HookError if the hook fails and does not set `continueOnError`
  */
 export async function executeHook(
-	hookCommand: string | undefined,
+	hook: Hook | undefined,
 	hookName: string,
 	cwd: string,
-): Promise<void> {
-	if (!hookCommand) return;
+	options: ExecuteHookOptions = {},
+): Promise<boolean> {
+	if (!hook) return true;
+	if (typeof hook === "function") {
+		return await runHookFunction(hook, hookName, cwd, options);
+	}
 
-	console.log(chalk.cyan(`Running ${hookName} hook: ${hookCommand}`));
+	const { silent = false, context } = options;
+	const { run, continueOnError = false, ...settings } = normalizeHook(hook);
+	const commands = (Array.isArray(run) ? run : [run]).filter(Boolean);
+	if (commands.length === 0) return true;
 
-	try {
-		const isWindows = os.platform() === "win32";
-		const shell = isWindows ? "cmd" : "sh";
-		const shellArgs = isWindows ? ["/c", hookCommand] : ["-c", hookCommand];
+	const env = getHookEnv(hookName, cwd, context);
+	const hookCwd = settings.cwd ? resolve(cwd, settings.cwd) : cwd;
+	const timeout = settings.timeout
+		? parseDuration(settings.timeout)
+		: undefined;
 
-		const result = await execa(shell, shellArgs, {
-			cwd,
-			stdio: "inherit",
-		});
+	let failed = false;
+	for (const hookCommand of commands) {
+		if (!silent) {
+			console.log(chalk.cyan(`Running ${hookName} hook: ${hookCommand}`));
+		}
+
+		try {
+			const isWindows = os.platform() === "win32";
+			const shell = isWindows ? "cmd" : "sh";
+			const shellArgs = isWindows ? ["/c", hookCommand] : ["-c", hookCommand];
 
-		if (result.exitCode === 0) {
-			console.log(chalk.green(`✓ ${hookName} hook completed`));
+			await execa(shell, shellArgs, {
+				cwd: hookCwd,
+				env,
+				...(timeout !== undefined && { timeout }),
+				...(silent
+					? { stdin: "inherit", stdout: process.stderr, stderr: "inherit" }
+					: { stdio: "inherit" }),
+			});
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			console.error(chalk.red(`✗ ${hookName} hook failed: ${errorMessage}`));
+			if (!continueOnError) {
+				throw new HookError(
+					hookName,
+					`Hook "${hookName}" failed to execute: ${errorMessage}`,
+				);
+			}
+			failed = true;
 		}
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		console.error(chalk.red(`✗ ${hookName} hook failed: ${errorMessage}`));
-		throw new Error(`Hook "${hookName}" failed to execute: ${errorMessage}`);
 	}
+
+	if (!failed && !silent) {
+		console.log(chalk.green(`✓ ${hookName} hook completed`));
+	}
+	return true;
 }
@@ -0,0 +1,87 @@
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import { cosmiconfig } from "cosmiconfig";
+import { configCache } from "./cache";
+import { ConfigError } from "./errors";
+
+const JSON_CONFIG_FILES = new Set([".purgorc", ".purgorc.json"]);
+
+const readJsonFile = async (
+	filepath: string,
+): Promise<Record<string, unknown>> => {
+	try {
+		return JSON.parse(await readFile(filepath, "utf-8"));
+	} catch {
+		throw new ConfigError(
+			`Cannot update ${filepath} automatically, it is not a JSON file`,
+		);
+	}
+};
+
+const writeJsonFile = async (
+	filepath: string,
+	content: Record<string, unknown>,
+): Promise<void> => {
+	await writeFile(filepath, `${JSON.stringify(content, null, 2)}\n`, "utf-8");
+};
+
+const appendUnique = (list: unknown, patterns: string[]): string[] => {
+	const existing = Array.isArray(list) ? (list as string[]) : [];
+	return [...existing, ...patterns.filter((p) => !existing.includes(p))];
+};
+
+/**
+ * Adds patterns to the `ignore` list of a project's configuration.
+ * Writes to the `purgo` field of package.json when it has one, otherwise to
+ * the project's `.purgorc`/`.purgorc.json`, creating `.purgorc.json` if needed
+ * (extending any configuration found in a parent directory).
+ * @param projectRoot The root directory of the project
+ * @param patterns Glob patterns to add, relative to the project root
+ * @returns The path of the file that was written
+ * @throws ConfigError if the project configuration is not a JSON file
+ */
+export const addToIgnoreList = async (
+	projectRoot: string,
+	patterns: string[],
+): Promise<string> => {
+	const root = resolve(projectRoot);
+	const packageJsonPath = join(root, "package.json");
+
+	const packageJson = existsSync(packageJsonPath)
+		? await readJsonFile(packageJsonPath)
+		: undefined;
+	if (packageJson && typeof packageJson.purgo === "object") {
+		const purgo = packageJson.purgo as Record<string, unknown>;
+		purgo.ignore = appendUnique(purgo.ignore, patterns);
+		await writeJsonFile(packageJsonPath, packageJson);
+		configCache.clear();
+		return packageJsonPath;
+	}
+
+	const found = await cosmiconfig("purgo").search(root);
+	const filepath = found?.filepath;
+
+	if (filepath && dirname(filepath) === root) {
+		if (!JSON_CONFIG_FILES.has(basename(filepath))) {
+			throw new ConfigError(
+				`Cannot update ${filepath} automatically, only JSON configuration files can be rewritten`,
+			);
+		}
+		const config = await readJsonFile(filepath);
+		config.ignore = appendUnique(config.ignore, patterns);
+		await writeJsonFile(filepath, config);
+		configCache.clear();
+		return filepath;
+	}
+
+	const configPath = join(root, ".purgorc.json");
+	const config: Record<string, unknown> = { ignore: patterns };
+	if (filepath) {
+		// Keep the parent configuration that the new file would otherwise shadow
+		config.extends = relative(root, filepath);
+	}
+	await writeJsonFile(configPath, config);
+	configCache.clear();
+	return configPath;
+};
@@ -1,36 +1,228 @@
 import { rm } from "node:fs/promises";
-import * as os from "node:os";
-import { join, resolve } from "node:path";
+import { resolve } from "node:path";
 import { execa } from "execa";
-import getFolderSize from "get-folder-size";
-import { glob } from "glob";
-import prettyBytes from "pretty-bytes";
-import prompts from "prompts";
-import { loadConfig } from "./config";
-import { executeHook } from "./hooks";
-import { CleanUI } from "./ui";
+import { type BackupRun, createBackupRun, getDefaultBackupDir } from "./backup";
+import { loadConfig, type PurgoConfig } from "./config";
+import { discoverTargets } from "./discovery";
+import { GuardrailError } from "./errors";
+import { findFastTrash, moveAside, removeInBackground } from "./fast-delete";
+import type { Duration, Size } from "./filters";
+import { findDirtyPaths } from "./git";
+import { describeDangerousRoot, describeExceededGuardrail } from "./guardrails";
+import { executeHook, type HookContext, type HookName } from "./hooks";
+import { addToIgnoreList } from "./ignore-list";
+import { JsonReporter, type ReporterName } from "./json-reporter";
+import { PathGuard } from "./path-guard";
 import {
-	deduplicatePaths,
+	findPluginVeto,
+	loadPlugins,
+	type PurgoPlugin,
+	withPluginReporters,
+} from "./plugins";
+import type { Reporter } from "./reporter";
+import type { SizeMode } from "./sizes";
+import type { Target } from "./targets";
+import { createTrashRun, type DeleteStrategy, type TrashRun } from "./trash";
+import {
+	CleanUI,
+	type ErrorItem,
+	formatSize,
+	type ReinstallResult,
+	type TargetWithSize,
+} from "./ui";
+import {
+	getDefaultConcurrency,
+	getGlobalConfigPath,
 	getPreferredPackageManager,
-	resolvePackageDir,
-	shouldProtectPath,
+	mapWithConcurrency,
 	toBytes,
 } from "./utils";
+import { getWorkspaceScopes } from "./workspaces";
 
+export type {
+	BackupConfig,
+	BackupFormat,
+	BackupManifest,
+	BackupManifestEntry,
+	BackupRunOptions,
+} from "./backup";
+export {
+	BackupRun,
+	backupManifestSchema,
+	createBackupRun,
+	getDefaultBackupDir,
+} from "./backup";
 export { configCache } from "./cache";
 export type { LoadedConfig, PurgoConfig } from "./config";
-export type { HookExecutor } from "./hooks";
-export { executeHook, hookExecutorSchema } from "./hooks";
+export { defineConfig } from "./config";
+export type {
+	DiscoveryOptions,
+	DiscoveryResult,
+	DiscoveryScope,
+} from "./discovery";
+export { DEFAULT_TARGETS, discoverTargets } from "./discovery";
+export { ConfigError, GuardrailError, HookError } from "./errors";
+export type { ExitCode } from "./exit-codes";
+export {
+	EXIT_CODES,
+	getErrorExitCode,
+	getResultExitCode,
+} from "./exit-codes";
+export {
+	FAST_TRASH_PREFIX,
+	findFastTrash,
+	moveAside,
+	removeInBackground,
+} from "./fast-delete";
+export type {
+	Duration,
+	Size,
+	SizedTarget,
+	SizeSelectionOptions,
+} from "./filters";
+export {
+	ActivityTracker,
+	durationSchema,
+	isOlderThan,
+	selectBySize,
+	sizeSchema,
+} from "./filters";
+export {
+	findDirtyPaths,
+	findTrackedPaths,
+	getLastCommitDate,
+} from "./git";
+export type { GitignoreRule } from "./gitignore";
+export {
+	findGitignoredPaths,
+	GITIGNORED_KEEP,
+	isGitignored,
+	parseGitignore,
+} from "./gitignore";
+export type { GuardrailsConfig } from "./guardrails";
+export {
+	DEFAULT_GUARDRAILS,
+	describeDangerousRoot,
+	describeExceededGuardrail,
+	guardrailsConfigSchema,
+	resolveProtectedPaths,
+} from "./guardrails";
+export type {
+	ExecuteHookOptions,
+	Hook,
+	HookContext,
+	HookExecutor,
+	HookFunction,
+	HookFunctionContext,
+	HookName,
+} from "./hooks";
+export {
+	executeHook,
+	getHookEnv,
+	HOOK_NAMES,
+	hookExecutorSchema,
+	hookSchema,
+} from "./hooks";
+export { addToIgnoreList } from "./ignore-list";
+export type { CleanReport, ReporterName } from "./json-reporter";
+export { cleanReportSchema, JsonReporter } from "./json-reporter";
+export type {
+	CacheAction,
+	PackageCache,
+	PruneResult,
+} from "./package-caches";
+export {
+	CACHE_ACTIONS,
+	findPackageCaches,
+	locatePackageCache,
+	PACKAGE_MANAGERS,
+	PRUNE_COMMANDS,
+	prunePackageCache,
+} from "./package-caches";
+export { listMountPoints, PathGuard } from "./path-guard";
+export type {
+	PluginCandidate,
+	PluginContext,
+	PluginDeletion,
+	PluginEntry,
+	PluginTargetContext,
+	PurgoPlugin,
+} from "./plugins";
+export {
+	BUILTIN_PLUGINS,
+	definePlugin,
+	javascriptPlugin,
+	loadPlugins,
+	pythonPlugin,
+	rustPlugin,
+} from "./plugins";
+export type { Preset, PresetName } from "./presets";
+export {
+	detectPresets,
+	getPresetTargets,
+	PRESET_NAMES,
+	PRESETS,
+	presetNameSchema,
+} from "./presets";
+export type {
+	Reporter,
+	SelectableTarget,
+	TargetSelection,
+} from "./reporter";
+export { SilentReporter } from "./reporter";
+export type { RestoreOptions, RestoreResult } from "./restore";
+export {
+	findBackupRun,
+	listBackupRuns,
+	restoreBackupRun,
+} from "./restore";
+export type { ProjectScan, ScanOptions, ScanResult } from "./scan";
+export { findProjectRoots, PROJECT_MARKERS, scanWorkspace } from "./scan";
+export type { DirectoryStamp, SizeMode } from "./sizes";
+export {
+	estimateFolderSize,
+	getSizeCacheFile,
+	measureFolderSize,
+	measureSize,
+	SizeCache,
+	sizeModeSchema,
+} from "./sizes";
+export type { Target, TargetRule } from "./targets";
+export { parseTarget, targetSchema } from "./targets";
+export type {
+	DeleteStrategy,
+	EmptyTrashOptions,
+	EmptyTrashResult,
+	TrashConfig,
+	TrashLocation,
+	TrashRunOptions,
+} from "./trash";
+export {
+	createTrashRun,
+	emptyTrash,
+	getDefaultTrashDir,
+	getSystemTrashDir,
+	listTrashRuns,
+	TrashRun,
+} from "./trash";
 export type {
 	CleanSummary,
 	ErrorItem,
+	ItemResult,
 	ProgressOptions,
+	ReinstallResult,
+	SkippedTarget,
 	TargetWithSize,
 } from "./ui";
 export {
 	CleanUI,
 	cleanSummarySchema,
+	errorItemSchema,
+	formatSize,
+	itemResultSchema,
 	progressOptionsSchema,
+	reinstallResultSchema,
+	skippedTargetSchema,
 	targetWithSizeSchema,
 } from "./ui";
 export {
@@ -41,6 +233,20 @@ export {
 	shouldProtectPath,
 	toBytes,
 } from "./utils";
+export type {
+	WorkspaceOverride,
+	WorkspacePackage,
+	WorkspaceSelection,
+} from "./workspaces";
+export {
+	findWorkspacePackages,
+	getWorkspaceOverride,
+	getWorkspacePatterns,
+	getWorkspaceScopes,
+	matchesWorkspace,
+	selectWorkspacePackages,
+	workspaceOverrideSchema,
+} from "./workspaces";
 
 /**
  * Options for cleaning a project.
@@ -48,8 +254,8 @@ export {
 export interface CleanOptions {
 	/** The root directory to start searching from. */
 	rootDir: string;
-	/** List of glob patterns to delete. Overrides config if provided. */
-	targets?: string[];
+	/** Targets to delete (see `Target` for the syntax). Overrides config if provided. */
+	targets?: Target[];
 	/** If true, only lists the files that would be deleted without removing them. */
 	dryRun?: boolean;
 	/** If true, reinstalls dependencies after cleaning (auto-detects package manager). */
@@ -58,37 +264,137 @@ export interface CleanOptions {
 	configPath?: string;
 	/** If true, skips confirmation prompt (useful for CI/CD). */
 	force?: boolean;
+	/** If true, lets the user pick which targets to delete instead of confirming them all. */
+	interactive?: boolean;
+	/** Only cleans targets untouched for at least this long (e.g. "7d"). Overrides `minAge` from config. */
+	olderThan?: Duration;
+	/** If true, a recent commit in the target's repository counts as activity. Overrides `useGitAge` from config. */
+	useGitAge?: boolean;
+	/** If true, never deletes a target containing files tracked by git. Overrides `gitSafe` from config. */
+	gitSafe?: boolean;
+	/**
+	 * If true, deletes the paths ignored by the project's .gitignore files (nested ones
+	 * included) instead of `targets`, skipping tracked ones. Overrides `gitignored` from config.
+	 */
+	gitignored?: boolean;
+	/** Skips targets smaller than this (e.g. "50MB"). Overrides `minSize` from config. */
+	minSize?: Size;
+	/** Picks the largest (then oldest) targets until this much space would be freed (e.g. "10GB"). */
+	free?: Size;
+	/** Never deletes more than this in total, picking the largest (then oldest) targets first. */
+	maxTotal?: Size;
 	/** Controls output verbosity: 'verbose' | 'normal' | 'quiet'. */
 	verbosity?: "verbose" | "normal" | "quiet";
-	// /** If true, creates a backup before deleting files. */
-	// backup?: boolean;
+	/** If true, archives every target before deleting it. Overrides `backup.enabled` from config. */
+	backup?: boolean;
+	/** Directory where backups are stored. Overrides `backup.dir` from config. */
+	backupDir?: string;
+	/** How targets are removed: 'rm' (permanent) or 'trash' (recoverable). Overrides config. */
+	deleteStrategy?: DeleteStrategy;
+	/**
+	 * Output format: 'pretty' (default), 'json' for a single machine-readable document,
+	 * or a custom `Reporter` receiving every lifecycle event. Overrides config.
+	 */
+	reporter?: ReporterName | Reporter;
+	/**
+	 * If true, deletes targets holding uncommitted git changes without asking again.
+	 * Otherwise they need an extra confirmation and are kept with `force`. Overrides config.
+	 */
+	allowDirty?: boolean;
+	/**
+	 * If true, cleans a root refused as too broad (filesystem root, home, system directories)
+	 * and goes beyond the guardrails without asking, even with `force`.
+	 */
+	overrideGuardrails?: boolean;
+	/** How many targets are measured and removed at once. Overrides `concurrency` from config. */
+	concurrency?: number;
+	/** How target sizes are obtained. Overrides `sizeMode` from config. */
+	sizeMode?: SizeMode;
+	/**
+	 * If true, targets are renamed to hidden `.purgo-trash-*` siblings, leaving the project
+	 * clean at once, and removed by a background process. Not compatible with the trash strategy.
+	 */
+	fast?: boolean;
+	/** Only cleans these workspace packages, by name or directory (globs allowed). */
+	workspace?: string[];
+	/** pnpm-style package filters: `name`, `./dir`, `name...` (with dependencies), `...name` (with dependents), `!name`. */
+	filter?: string[];
+	/** Plugins used on top of those of the config. */
+	plugins?: PurgoPlugin[];
 }
 
-const DEFAULT_TARGETS = [
-	"node_modules",
-	"dist",
-	"build",
-	"coverage",
-	".turbo",
-	".next",
-	".svelte-kit",
-];
-
-const HOME_DIR =
-	process.env.HOME ??
-	process.env.USERPROFILE ??
-	(typeof os.homedir === "function" ? os.homedir() : "");
-
-const DEFAULT_GLOBAL_CONFIG = HOME_DIR
-	? join(HOME_DIR, ".config", "purgo", "config.json")
-	: join(process.cwd(), ".purgo", "config.json");
+/**
+ * How a cleanup ended:
+ * - 'cleaned': targets were processed (check `errors` for failures)
+ * - 'dry-run': targets were only listed
+ * - 'cancelled': the user declined the confirmation
+ * - 'nothing-to-clean': no target was found
+ */
+export type CleanStatus =
+	| "cleaned"
+	| "dry-run"
+	| "cancelled"
+	| "nothing-to-clean";
+
+/**
+ * Outcome of a cleanup, returned by `cleanProject`.
+ */
+export interface CleanResult {
+	/** How the cleanup ended. */
+	status: CleanStatus;
+	/** Targets that were found, relative to rootDir, with their size in bytes. */
+	targets: { path: string; size: number }[];
+	/** Targets that were removed (or moved to the trash). */
+	deleted: string[];
+	/** Targets that could not be removed. */
+	errors: ErrorItem[];
+	/** Bytes actually removed from the project. */
+	freedBytes: number;
+	/** Duration of the cleanup in seconds. */
+	elapsedTime: number;
+	/** Outcome of the reinstall, when one was requested. */
+	reinstall?: ReinstallResult;
+}
+
+const getBackupDir = (
+	rootDir: string,
+	config: PurgoConfig,
+	backupDir?: string,
+): string => {
+	const configuredDir = backupDir ?? config.backup?.dir;
+	return configuredDir
+		? resolve(rootDir, configuredDir)
+		: getDefaultBackupDir();
+};
+
+/**
+ * Resolves the directory where backups of a project are stored.
+ * Priority: explicit backupDir > `backup.dir` from config > default data directory.
+ * @param options The project root, optional explicit directory and global config path
+ * @returns The absolute backup directory
+ */
+export async function resolveBackupDir(
+	options: Pick<CleanOptions, "rootDir" | "backupDir" | "configPath">,
+): Promise<string> {
+	const { rootDir, backupDir, configPath } = options;
+	if (backupDir) return resolve(rootDir, backupDir);
+
+	const { config } = await loadConfig({
+		projectRoot: rootDir,
+		globalConfigPath: getGlobalConfigPath(configPath),
+	});
+	return getBackupDir(rootDir, config);
+}
 
 /**
  * Finds and removes directories and files from a project.
  * Ideal for cleaning node_modules, caches and build artifacts.
  * @param options Configuration options for the cleanup.
+ * @returns What was found, removed and failed, and how the cleanup ended
  */
-export async function cleanProject(options: CleanOptions): Promise<void> {
+export async function cleanProject(
+	options: CleanOptions,
+): Promise<CleanResult> {
 	const startTime = Date.now();
 	const {
 		rootDir,
@@ -97,176 +403,447 @@ export async function cleanProject(options: CleanOptions): Promise<void> {
 		configPath,
 		targets: cliTargets,
 		force = false,
+		interactive = false,
+		olderThan,
+		useGitAge,
+		gitSafe,
+		gitignored,
+		minSize,
+		free,
+		maxTotal,
 		verbosity = "normal",
-		// backup = false, // TODO: implement backup functionality
+		backup,
+		backupDir,
+		deleteStrategy: cliDeleteStrategy,
+		reporter: cliReporter,
+		workspace,
+		filter,
+		fast = false,
+		overrideGuardrails = false,
 	} = options;
 
-	const globalConfigPath =
-		configPath || process.env.PURGO_GLOBAL_CONFIG || DEFAULT_GLOBAL_CONFIG;
+	// Known once the config is read; finish() runs whatever the outcome
+	let activeUi: Reporter | undefined;
+	try {
+		if (!overrideGuardrails) {
+			const dangerousRoot = await describeDangerousRoot(rootDir);
+			if (dangerousRoot) {
+				throw new GuardrailError(
+					`Refusing to clean ${resolve(rootDir)}: it is ${dangerousRoot}. Pass --i-know-what-im-doing to clean it anyway.`,
+				);
+			}
+		}
 
-	const { config } = await loadConfig({
-		projectRoot: rootDir,
-		globalConfigPath,
-	});
+		const { config } = await loadConfig({
+			projectRoot: rootDir,
+			globalConfigPath: getGlobalConfigPath(configPath),
+		});
 
-	const ui = new CleanUI(verbosity);
+		const plugins = await loadPlugins(
+			[...(config.plugins ?? []), ...(options.plugins ?? [])],
+			rootDir,
+		);
+		const pluginContext = { rootDir: resolve(rootDir), config };
+
+		const reporter = cliReporter ?? config.reporter ?? "pretty";
+		const ui = withPluginReporters(
+			typeof reporter === "object"
+				? reporter
+				: reporter === "json"
+					? new JsonReporter(resolve(rootDir))
+					: new CleanUI(verbosity),
+			plugins,
+		);
+		activeUi = ui;
+		const backupConfig = config.backup ?? {};
+		const shouldBackup = backup ?? backupConfig.enabled ?? false;
+		const deleteStrategy = cliDeleteStrategy ?? config.deleteStrategy ?? "rm";
+		const allowDirty = options.allowDirty ?? config.allowDirty ?? false;
+		if (fast && deleteStrategy === "trash") {
+			throw new Error(
+				"Fast deletion removes targets for good and cannot be combined with the trash delete strategy.",
+			);
+		}
+		const concurrency =
+			options.concurrency ?? config.concurrency ?? getDefaultConcurrency();
+		const sizeMode = options.sizeMode ?? config.sizeMode ?? "exact";
+
+		// Keep stdout reserved for the JSON document
+		const silentHooks = reporter === "json";
+		const runHook = (name: HookName, context?: HookContext) =>
+			executeHook(config.hooks?.[name], name, rootDir, {
+				silent: silentHooks,
+				context: { ...context, config },
+			});
 
-	await executeHook(config.hooks?.preClean, "preClean", rootDir);
+		const scopes = await getWorkspaceScopes(
+			rootDir,
+			{ workspace, filter },
+			config.workspaces,
+		);
 
-	const targets = cliTargets ?? config.targets ?? DEFAULT_TARGETS;
-	const ignoreFromConfig = config.ignore ?? [];
-	const finalIgnore = [
-		"**/node_modules/**/node_modules",
-		"**/.git",
-		"**/.git/**",
-		"**/.gitignore",
-		...ignoreFromConfig,
-	];
+		await runHook("preClean");
+
+		ui.startSearching();
+
+		const discovery = await discoverTargets({
+			rootDir,
+			config,
+			targets: cliTargets,
+			olderThan,
+			useGitAge,
+			gitSafe,
+			gitignored,
+			minSize,
+			free,
+			maxTotal,
+			scopes,
+			concurrency,
+			sizeMode,
+			plugins,
+			onProgress: (message) => ui.updateSearching(message),
+		});
+		// Leftovers of interrupted fast deletions are finished off by any real run
+		if (!dryRun) {
+			removeInBackground(await findFastTrash(rootDir));
+		}
 
-	ui.startSearching();
+		const { skipped } = discovery;
+		let topLevelPaths = discovery.targets.map((target) => target.path);
 
-	const globPatterns = targets.map((target: string) => `**/${target}`);
-	const pathsToDelete = await glob(globPatterns, {
-		cwd: rootDir,
-		dot: true,
-		ignore: finalIgnore,
-	});
+		ui.updateSearching("Checking for uncommitted changes...");
+		const dirtyPaths = await findDirtyPaths(rootDir, topLevelPaths);
+		const targetsWithSize: TargetWithSize[] = discovery.targets.map((target) =>
+			dirtyPaths.has(target.path) ? { ...target, dirty: true } : target,
+		);
 
-	let topLevelPaths = deduplicatePaths(pathsToDelete);
-
-	// Self-protection filter: protect purgo-cli and any user-defined excluded packages
-	const protectSelf = config.protectSelf ?? true;
-	if (protectSelf) {
-		const envProtected = process.env.PURGO_PROTECT_DIR;
-		const ownPkgDir =
-			envProtected && envProtected.length > 0
-				? envProtected
-				: resolvePackageDir("purgo-cli");
-		const extraExcluded = (config.excludePackages ?? [])
-			.map((name) => resolvePackageDir(name))
-			.filter((v): v is string => Boolean(v));
-		const protectedDirs = [ownPkgDir, ...extraExcluded].filter(
-			(v): v is string => Boolean(v),
+		const sizeByPath = new Map(
+			targetsWithSize.map((target) => [target.path, toBytes(target.size)]),
 		);
+		const withSizes = (paths: string[]) =>
+			paths.map((path) => ({ path, size: sizeByPath.get(path) ?? 0 }));
+
+		const createResult = (
+			status: CleanStatus,
+			targets: TargetWithSize[] = [],
+		): CleanResult => ({
+			status,
+			targets: targets.map((target) => ({
+				path: target.path,
+				size: toBytes(target.size),
+			})),
+			deleted: [],
+			errors: [],
+			freedBytes: 0,
+			elapsedTime: (Date.now() - startTime) / 1000,
+		});
 
-		if (protectedDirs.length > 0) {
-			topLevelPaths = topLevelPaths.filter((rel) => {
-				// Compare against absolute path
-				const abs = resolve(rootDir, rel);
-				return !shouldProtectPath(abs, protectedDirs);
-			});
+		// Notification only: the cleanup is cancelled whether the hook succeeds or not
+		const cancel = async (): Promise<CleanResult> => {
+			ui.showCancelled();
+			await runHook("onCancel", { targets: withSizes(topLevelPaths) }).catch(
+				() => {},
+			);
+			return createResult("cancelled", targetsWithSize);
+		};
+
+		if (topLevelPaths.length === 0) {
+			ui.showNothingToClean();
+			ui.showSkipped(skipped);
+			return createResult("nothing-to-clean");
 		}
-	}
 
-	if (topLevelPaths.length === 0) {
-		ui.showNothingToClean();
-		return;
-	}
+		let totalSize = targetsWithSize.reduce(
+			(acc, target) => acc + toBytes(target.size),
+			0,
+		);
 
-	ui.updateSearching("Calculating target sizes...");
+		ui.stopSpinner();
+		ui.showSkipped(skipped);
+		ui.showTargets(targetsWithSize);
 
-	const targetsWithSize = await Promise.all(
-		topLevelPaths.map(async (path) => {
-			const absolutePath = resolve(rootDir, path);
-			const folderSize = await getFolderSize(absolutePath);
-			return { path, size: folderSize };
-		}),
-	);
-
-	const totalSize = targetsWithSize.reduce(
-		(acc, target) => acc + toBytes(target.size),
-		0,
-	);
-
-	ui.stopSpinner();
-	ui.showTargets(targetsWithSize);
-
-	if (dryRun) {
-		ui.showDryRunNotice();
-		return;
-	}
+		if (dryRun) {
+			ui.showDryRunNotice();
+			return createResult("dry-run", targetsWithSize);
+		}
 
-	if (!force) {
-		const response = await prompts({
-			type: "confirm",
-			name: "confirm",
-			message: `Are you sure you want to delete the ${topLevelPaths.length} listed items and free up ${prettyBytes(totalSize)}?`,
-			initial: true,
-		});
+		if (interactive) {
+			const selectable = targetsWithSize
+				.map((target) => ({
+					path: target.path,
+					size: toBytes(target.size),
+					sizeMode: target.sizeMode,
+					lastActivity: target.lastActivity,
+					dirty: target.dirty,
+				}))
+				.sort((a, b) => b.size - a.size);
+
+			const { selected, remember } = await ui.selectTargets(selectable);
+			if (selected.length === 0) {
+				return await cancel();
+			}
 
-		if (!response.confirm) {
-			ui.showCancelled();
-			return;
+			const unselected = topLevelPaths.filter(
+				(path) => !selected.includes(path),
+			);
+			if (remember && unselected.length > 0) {
+				// Trailing /** also ignores whatever other targets they contain
+				const patterns = unselected.map((path) => `${path}/**`);
+				// The selection stands even if it cannot be remembered
+				try {
+					const filepath = await addToIgnoreList(rootDir, patterns);
+					ui.showIgnoreListUpdated(filepath, patterns);
+				} catch (error) {
+					ui.showIgnoreListError(error, patterns);
+				}
+			}
+
+			topLevelPaths = topLevelPaths.filter((path) => selected.includes(path));
+			totalSize = selectable
+				.filter((target) => selected.includes(target.path))
+				.reduce((acc, target) => acc + target.size, 0);
+		} else if (!force) {
+			const confirmed = await ui.confirm(
+				sizeMode === "none"
+					? `Are you sure you want to delete the ${topLevelPaths.length} listed items?`
+					: `Are you sure you want to delete the ${topLevelPaths.length} listed items and free up ${formatSize(totalSize, sizeMode)}?`,
+			);
+
+			if (!confirmed) {
+				return await cancel();
+			}
+		} else {
+			ui.showForceMode();
+
+			// Past the guardrails, even force needs a confirmation
+			const exceeded = overrideGuardrails
+				? null
+				: describeExceededGuardrail(
+						topLevelPaths.length,
+						totalSize,
+						config.guardrails,
+					);
+			if (
+				exceeded &&
+				!(await ui.confirm(`${exceeded} Delete them anyway?`, false))
+			) {
+				return await cancel();
+			}
+		}
+
+		// Uncommitted work needs its own confirmation; without one it is kept
+		const dirtySelected = topLevelPaths.filter((path) => dirtyPaths.has(path));
+		if (dirtySelected.length > 0 && !allowDirty) {
+			const confirmed =
+				!force &&
+				(await ui.confirm(
+					`${dirtySelected.length} of these targets contain uncommitted changes (${dirtySelected.join(", ")}). Delete them anyway?`,
+				));
+
+			if (!confirmed) {
+				ui.showSkipped(
+					dirtySelected.map((path) => ({
+						path,
+						reason:
+							"contains uncommitted changes (use --allow-dirty to delete it)",
+					})),
+				);
+				topLevelPaths = topLevelPaths.filter((path) => !dirtyPaths.has(path));
+				totalSize = targetsWithSize
+					.filter((target) => topLevelPaths.includes(target.path))
+					.reduce((acc, target) => acc + toBytes(target.size), 0);
+			}
+
+			if (topLevelPaths.length === 0) {
+				return await cancel();
+			}
+		}
+
+		let backupRun: BackupRun | undefined;
+		if (shouldBackup) {
+			backupRun = await createBackupRun({
+				rootDir: resolve(rootDir),
+				backupDir: getBackupDir(rootDir, config, backupDir),
+				format: backupConfig.format,
+			});
+			ui.showBackupLocation(backupRun.dir);
+		}
+
+		let trashRun: TrashRun | undefined;
+		if (deleteStrategy === "trash") {
+			trashRun = await createTrashRun({
+				rootDir: resolve(rootDir),
+				location: config.trash?.location,
+			});
+			ui.showTrashLocation(trashRun.destination);
 		}
-	} else {
-		ui.showForceMode();
-	}
 
-	let deletedCount = 0;
-	let errorCount = 0;
-	const errorItems: { path: string; message: string }[] = [];
-
-	// Helper function to delete with retry logic for permission errors
-	const deleteWithRetry = async (
-		absolutePath: string,
-		path: string,
-		maxRetries = 3,
-	): Promise<boolean> => {
-		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+		let deletedCount = 0;
+		let errorCount = 0;
+		const errorItems: ErrorItem[] = [];
+		const deletedPaths: string[] = [];
+		const movedAside: string[] = [];
+		// Targets a preDelete function hook or a plugin held back, with the reason
+		const kept = new Map<string, string>();
+		const pathGuard = await PathGuard.create(rootDir);
+
+		// Helper function to delete with retry logic for permission errors
+		const deleteWithRetry = async (
+			absolutePath: string,
+			path: string,
+			maxRetries = 3,
+		): Promise<boolean> => {
+			// A symlink may have been swapped in since discovery
 			try {
-				await rm(absolutePath, { recursive: true, force: true });
-				return true;
+				await pathGuard.assertInside(absolutePath);
 			} catch (error) {
-				const err = error as NodeJS.ErrnoException;
-				const isPermissionError =
-					err.code === "EBUSY" || err.code === "EPERM" || err.code === "EACCES";
-
-				// Only retry permission errors
-				if (isPermissionError && attempt < maxRetries) {
-					ui.showRetrying(path, attempt + 1, maxRetries);
-					await new Promise((resolve) =>
-						setTimeout(resolve, 1000 * (attempt + 1)),
-					);
-					continue;
-				}
+				errorItems.push({
+					path,
+					message: error instanceof Error ? error.message : String(error),
+				});
+				return false;
+			}
 
-				// Error persists or non-permission error
+			const target = {
+				path,
+				absolutePath,
+				size: sizeByPath.get(path) ?? 0,
+			};
+			try {
+				if (!(await runHook("preDelete", { target }))) {
+					kept.set(path, "kept by the preDelete hook");
+					return false;
+				}
+			} catch (error) {
 				const message = error instanceof Error ? error.message : String(error);
-				const suggestion = isPermissionError
-					? " Try closing programs that might be using this file/folder."
-					: "";
 				errorItems.push({
 					path,
-					message: `${message}${suggestion}`,
+					message: `preDelete hook failed, target was not deleted: ${message}`,
 				});
 				return false;
 			}
-		}
-		return false;
-	};
 
-	if (topLevelPaths.length > 5) {
-		ui.startProgress(topLevelPaths.length, "Deleting");
+			try {
+				const veto = await findPluginVeto(plugins, target, pluginContext);
+				if (veto) {
+					kept.set(path, veto);
+					return false;
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				errorItems.push({
+					path,
+					message: `${message}, target was not deleted`,
+				});
+				return false;
+			}
 
-		for (let i = 0; i < topLevelPaths.length; i++) {
-			const path = topLevelPaths[i];
-			if (!path) continue;
+			// Never delete a target whose backup could not be written
+			if (backupRun) {
+				try {
+					await backupRun.backup(absolutePath, path, sizeByPath.get(path) ?? 0);
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					errorItems.push({
+						path,
+						message: `Backup failed, target was not deleted: ${message}`,
+					});
+					return false;
+				}
+			}
 
-			const absolutePath = resolve(rootDir, path);
+			for (let attempt = 0; attempt <= maxRetries; attempt++) {
+				try {
+					if (trashRun) {
+						await trashRun.trash(absolutePath, path, sizeByPath.get(path) ?? 0);
+					} else if (fast) {
+						movedAside.push(await moveAside(absolutePath));
+					} else {
+						await rm(absolutePath, { recursive: true, force: true });
+					}
+					return true;
+				} catch (error) {
+					const err = error as NodeJS.ErrnoException;
+					const isPermissionError =
+						err.code === "EBUSY" ||
+						err.code === "EPERM" ||
+						err.code === "EACCES";
+
+					// Only retry permission errors
+					if (isPermissionError && attempt < maxRetries) {
+						ui.showRetrying(path, attempt + 1, maxRetries);
+						await new Promise((resolve) =>
+							setTimeout(resolve, 1000 * (attempt + 1)),
+						);
+						continue;
+					}
+
+					// Error persists or non-permission error
+					const message =
+						error instanceof Error ? error.message : String(error);
+					const suggestion = isPermissionError
+						? " Try closing programs that might be using this file/folder."
+						: "";
+					errorItems.push({
+						path,
+						message: `${message}${suggestion}`,
+					});
+					return false;
+				}
+			}
+			return false;
+		};
 
-			const success = await deleteWithRetry(absolutePath, path);
+		const recordResult = (path: string, success: boolean) => {
 			if (success) {
 				deletedCount++;
+				deletedPaths.push(path);
 			} else {
 				errorCount++;
 			}
+			ui.showItemResult({
+				path,
+				size: sizeByPath.get(path) ?? 0,
+				status: success ? "deleted" : "failed",
+				error: success
+					? undefined
+					: errorItems.find((item) => item.path === path)?.message,
+			});
+		};
+
+		// Sizes are known, so progress advances by bytes rather than by target
+		let processedCount = 0;
+		let processedBytes = 0;
+		ui.startProgress(topLevelPaths.length, "Deleting");
+
+		await mapWithConcurrency(topLevelPaths, concurrency, async (path) => {
+			const absolutePath = resolve(rootDir, path);
+			const success = await deleteWithRetry(absolutePath, path);
+			if (!kept.has(path)) recordResult(path, success);
+			if (success) {
+				// The target is gone either way; a failure only shows up as an error
+				await runHook("postDelete", {
+					target: { path, absolutePath, size: sizeByPath.get(path) ?? 0 },
+				}).catch((error) => {
+					errorCount++;
+					errorItems.push({
+						path,
+						message: `postDelete hook failed: ${error instanceof Error ? error.message : String(error)}`,
+					});
+				});
+			}
 
+			processedCount++;
+			processedBytes += sizeByPath.get(path) ?? 0;
 			ui.updateProgress({
-				current: i + 1,
+				current: processedCount,
 				total: topLevelPaths.length,
 				itemName: path,
+				bytesDone: processedBytes,
+				totalBytes: totalSize,
 			});
-		}
+		});
 
 		ui.stopProgress(
 			errorCount === 0,
@@ -274,50 +851,88 @@ export async function cleanProject(options: CleanOptions): Promise<void> {
 				? "Cleanup completed successfully!"
 				: `Cleanup completed with ${errorCount} errors`,
 		);
-	} else {
-		const deleteSpinner = ui.startCleaning();
-
-		await Promise.all(
-			topLevelPaths.map(async (path) => {
-				const absolutePath = resolve(rootDir, path);
-				const success = await deleteWithRetry(absolutePath, path);
-				if (success) {
-					deletedCount++;
-				} else {
-					errorCount++;
-				}
-			}),
-		);
+		ui.showSkipped([...kept].map(([path, reason]) => ({ path, reason })));
 
-		ui.showCleanResult(deleteSpinner, errorCount);
-	}
+		if (movedAside.length > 0) {
+			removeInBackground(movedAside);
+			ui.showBackgroundRemoval(movedAside.length);
+		}
 
-	const endTime = Date.now();
-	const elapsedTime = (endTime - startTime) / 1000;
+		const endTime = Date.now();
+		const elapsedTime = (endTime - startTime) / 1000;
+		const freedBytes = deletedPaths.reduce(
+			(acc, path) => acc + (sizeByPath.get(path) ?? 0),
+			0,
+		);
 
-	ui.showSummary({
-		deletedCount,
-		totalSize,
-		errorCount,
-		errors: errorItems,
-		elapsedTime,
-		speed: totalSize / elapsedTime,
-	});
+		ui.showSummary({
+			deletedCount,
+			totalSize: freedBytes,
+			errorCount,
+			errors: errorItems,
+			elapsedTime,
+			speed: freedBytes / elapsedTime,
+			sizeMode,
+		});
 
-	await executeHook(config.hooks?.postClean, "postClean", rootDir);
+		const summary: HookContext = {
+			targets: withSizes(topLevelPaths),
+			deleted: deletedPaths,
+			freedBytes,
+			errors: errorItems,
+		};
+		if (errorCount > 0) {
+			// Notification only: the errors already end up in the result
+			await runHook("onError", summary).catch(() => {});
+		}
+		await runHook("postClean", summary);
 
-	if (reinstall && !dryRun && errorCount === 0) {
-		const packageManager = getPreferredPackageManager(rootDir);
-		const reinstallSpinner = ui.startReinstall(packageManager);
-		try {
-			await execa(packageManager, ["install"], { cwd: rootDir });
-			ui.showReinstallSuccess(reinstallSpinner, packageManager);
-		} catch (error) {
-			ui.showReinstallError(reinstallSpinner, error, packageManager);
+		let reinstallResult: ReinstallResult | undefined;
+		if (reinstall && !dryRun && errorCount === 0) {
+			const packageManager = getPreferredPackageManager(rootDir);
+			ui.startReinstall(packageManager);
+			try {
+				await runHook("preReinstall", { ...summary, packageManager });
+				await execa(packageManager, ["install"], { cwd: rootDir });
+				ui.showReinstallSuccess(packageManager);
+				reinstallResult = { packageManager, status: "success" };
+			} catch (error) {
+				ui.showReinstallError(error, packageManager);
+				reinstallResult = {
+					packageManager,
+					status: "failed",
+					message: error instanceof Error ? error.message : String(error),
+				};
+			}
+			if (reinstallResult.status === "success") {
+				await runHook("postReinstall", { ...summary, packageManager });
+			}
+		} else if (reinstall && !dryRun && errorCount > 0) {
+			const reason =
+				"Cleanup encountered errors. Dependencies were not reinstalled.";
+			ui.showReinstallSkipped(reason);
+			reinstallResult = { status: "skipped", message: reason };
 		}
-	} else if (reinstall && !dryRun && errorCount > 0) {
-		ui.showReinstallSkipped(
-			"Cleanup encountered errors. Dependencies were not reinstalled.",
-		);
+
+		return {
+			...createResult("cleaned", targetsWithSize),
+			deleted: deletedPaths,
+			errors: errorItems,
+			freedBytes,
+			elapsedTime,
+			reinstall: reinstallResult,
+		};
+	} catch (error) {
+		// A failure before the config was read still reaches the caller's reporter
+		activeUi ??=
+			typeof cliReporter === "object"
+				? cliReporter
+				: cliReporter === "json"
+					? new JsonReporter(resolve(rootDir))
+					: undefined;
+		activeUi?.showError(error);
+		throw error;
+	} finally {
+		activeUi?.finish();
 	}
 }
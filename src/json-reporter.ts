@@ -0,0 +1,179 @@
+import * as v from "valibot";
+import {
+	type SelectableTarget,
+	SilentReporter,
+	type TargetSelection,
+} from "./reporter";
+import {
+	type CleanSummary,
+	cleanSummarySchema,
+	errorItemSchema,
+	type ItemResult,
+	itemResultSchema,
+	promptConfirmation,
+	promptTargetSelection,
+	reinstallResultSchema,
+	type SkippedTarget,
+	skippedTargetSchema,
+	type TargetWithSize,
+	targetWithSizeSchema,
+} from "./ui";
+import { toBytes } from "./utils";
+
+export const reporterNameSchema = v.picklist(["pretty", "json"]);
+
+export const cleanReportSchema = v.object({
+	version: v.literal(1),
+	rootDir: v.string(),
+	action: v.picklist(["none", "dry-run", "cancel", "delete", "trash"]),
+	force: v.boolean(),
+	targets: v.array(targetWithSizeSchema),
+	skipped: v.array(skippedTargetSchema),
+	totalSize: v.pipe(v.number(), v.minValue(0)),
+	results: v.array(itemResultSchema),
+	errors: v.array(errorItemSchema),
+	freedBytes: v.pipe(v.number(), v.minValue(0)),
+	elapsedTime: v.pipe(v.number(), v.minValue(0)),
+	summary: v.optional(cleanSummarySchema),
+	backupDir: v.optional(v.string()),
+	trashDir: v.optional(v.string()),
+	reinstall: v.optional(reinstallResultSchema),
+	error: v.optional(v.string()),
+});
+
+/**
+ * Built-in output formats: colorful terminal output or a single JSON document.
+ */
+export type ReporterName = v.InferOutput<typeof reporterNameSchema>;
+
+/**
+ * Machine-readable report of a cleanup, printed by `clean --json`.
+ * See schema/clean-report.schema.json.
+ */
+export type CleanReport = v.InferOutput<typeof cleanReportSchema>;
+
+/**
+ * Reporter that prints nothing while the cleanup runs and emits one
+ * JSON document on stdout when it finishes.
+ */
+export class JsonReporter extends SilentReporter {
+	private readonly startTime = Date.now();
+	private report: CleanReport;
+
+	constructor(rootDir: string) {
+		super();
+		this.report = {
+			version: 1,
+			rootDir,
+			action: "none",
+			force: false,
+			targets: [],
+			skipped: [],
+			totalSize: 0,
+			results: [],
+			errors: [],
+			freedBytes: 0,
+			elapsedTime: 0,
+		};
+	}
+
+	override showForceMode(): void {
+		this.report.force = true;
+	}
+
+	override async confirm(message: string, initial = true): Promise<boolean> {
+		// Keep stdout reserved for the JSON document
+		return promptConfirmation(message, initial, process.stderr);
+	}
+
+	override async selectTargets(
+		targets: SelectableTarget[],
+	): Promise<TargetSelection> {
+		return promptTargetSelection(targets, process.stderr);
+	}
+
+	override showBackupLocation(dir: string): void {
+		this.report.backupDir = dir;
+	}
+
+	override showTrashLocation(dir: string): void {
+		this.report.trashDir = dir;
+	}
+
+	override showItemResult(result: ItemResult): void {
+		this.report.results.push(result);
+		if (result.status === "deleted") {
+			this.report.freedBytes += result.size;
+		}
+	}
+
+	override showSkipped(skipped: SkippedTarget[]): void {
+		this.report.skipped.push(...skipped);
+	}
+
+	override showNothingToClean(): void {
+		this.report.action = "none";
+	}
+
+	override showTargets(targets: TargetWithSize[]): void {
+		this.report.targets = targets.map((target) => ({
+			...target,
+			size: toBytes(target.size),
+		}));
+		this.report.totalSize = targets.reduce(
+			(acc, target) => acc + toBytes(target.size),
+			0,
+		);
+	}
+
+	override showDryRunNotice(): void {
+		this.report.action = "dry-run";
+	}
+
+	override showCancelled(): void {
+		this.report.action = "cancel";
+	}
+
+	override startProgress(_total: number, _operation?: string): void {
+		this.report.action = this.report.trashDir ? "trash" : "delete";
+	}
+
+	override showSummary(summary: CleanSummary): void {
+		this.report.summary = summary;
+		this.report.errors = summary.errors ?? [];
+	}
+
+	override showReinstallSuccess(packageManager: string): void {
+		this.report.reinstall = { packageManager, status: "success" };
+	}
+
+	override showReinstallError(error: unknown, packageManager: string): void {
+		this.report.reinstall = {
+			packageManager,
+			status: "failed",
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	override showReinstallSkipped(reason: string): void {
+		this.report.reinstall = { status: "skipped", message: reason };
+	}
+
+	override showError(error: unknown): void {
+		this.report.error = error instanceof Error ? error.message : String(error);
+	}
+
+	/**
+	 * Returns the report collected so far, validated against its schema.
+	 */
+	getReport(): CleanReport {
+		return v.parse(cleanReportSchema, {
+			...this.report,
+			elapsedTime: (Date.now() - this.startTime) / 1000,
+		});
+	}
+
+	override finish(): void {
+		console.log(JSON.stringify(this.getReport(), null, 2));
+	}
+}
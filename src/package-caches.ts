@@ -0,0 +1,183 @@
+import { access } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { execa } from "execa";
+import getFolderSize from "get-folder-size";
+import { getHomeDir, type PackageManager, toBytes } from "./utils";
+
+export const PACKAGE_MANAGERS: PackageManager[] = [
+	"npm",
+	"pnpm",
+	"yarn",
+	"bun",
+];
+
+/**
+ * What pruning does to a cache:
+ * - 'prune': drops only what the manager no longer needs
+ * - 'clear': empties the whole cache, for managers without a real prune
+ */
+export type CacheAction = "prune" | "clear";
+
+/**
+ * The global cache (or store) of a package manager.
+ */
+export interface PackageCache {
+	manager: PackageManager;
+	/** Absolute path of the cache directory. */
+	path: string;
+	/** Size of the cache in bytes. */
+	size: number;
+	/** What `prunePackageCache` does to it. */
+	action: CacheAction;
+}
+
+/**
+ * Outcome of pruning a package-manager cache.
+ */
+export interface PruneResult {
+	manager: PackageManager;
+	/** Bytes the cache shrank by. */
+	freedBytes: number;
+	/** Why the prune command failed, if it did. */
+	error?: string;
+}
+
+/**
+ * Commands that drop what a package manager no longer needs from its cache.
+ * npm has no prune, `cache verify` garbage-collects unreferenced data instead.
+ * Yarn and bun have no prune either, their commands clear the whole cache.
+ */
+export const PRUNE_COMMANDS: Record<PackageManager, [string, string[]]> = {
+	npm: ["npm", ["cache", "verify"]],
+	pnpm: ["pnpm", ["store", "prune"]],
+	yarn: ["yarn", ["cache", "clean"]],
+	bun: ["bun", ["pm", "cache", "rm"]],
+};
+
+/**
+ * What the command of each manager in `PRUNE_COMMANDS` does to its cache.
+ */
+export const CACHE_ACTIONS: Record<PackageManager, CacheAction> = {
+	npm: "prune",
+	pnpm: "prune",
+	yarn: "clear",
+	bun: "clear",
+};
+
+// Output of a command that prints a path, or null when it fails or prints something else
+const queryPath = async (
+	command: string,
+	args: string[],
+	cwd: string,
+): Promise<string | null> => {
+	try {
+		const { stdout } = await execa(command, args, { cwd });
+		const path = stdout.trim().split(/\r?\n/).pop()?.trim() ?? "";
+		return isAbsolute(path) ? path : null;
+	} catch {
+		return null;
+	}
+};
+
+const exists = (path: string) =>
+	access(path).then(
+		() => true,
+		() => false,
+	);
+
+const measure = async (path: string): Promise<number> =>
+	toBytes(await getFolderSize(path));
+
+/**
+ * Finds where a package manager keeps its global cache, asking the manager itself
+ * when it is installed.
+ * @param manager The package manager
+ * @param cwd Directory to run the manager in, as project settings can move the cache
+ * @returns The cache directory, or null when it cannot be found
+ */
+export async function locatePackageCache(
+	manager: PackageManager,
+	cwd: string = process.cwd(),
+): Promise<string | null> {
+	switch (manager) {
+		case "npm":
+			return (
+				(await queryPath("npm", ["config", "get", "cache"], cwd)) ??
+				join(getHomeDir(), ".npm")
+			);
+		case "pnpm":
+			return await queryPath("pnpm", ["store", "path"], cwd);
+		case "yarn":
+			// Yarn Berry knows `cacheFolder`, Yarn Classic only `cache dir`
+			return (
+				(await queryPath("yarn", ["config", "get", "cacheFolder"], cwd)) ??
+				(await queryPath("yarn", ["cache", "dir"], cwd))
+			);
+		case "bun":
+			return (
+				process.env.BUN_INSTALL_CACHE_DIR ??
+				join(
+					process.env.BUN_INSTALL ?? join(getHomeDir(), ".bun"),
+					"install",
+					"cache",
+				)
+			);
+	}
+}
+
+/**
+ * Locates and measures the caches of package managers, skipping missing ones.
+ * @param managers Package managers to look at. Defaults to all of them.
+ * @param cwd Directory to run the managers in
+ * @returns The existing caches with their size
+ */
+export async function findPackageCaches(
+	managers: PackageManager[] = PACKAGE_MANAGERS,
+	cwd: string = process.cwd(),
+): Promise<PackageCache[]> {
+	const caches: PackageCache[] = [];
+
+	for (const manager of managers) {
+		const path = await locatePackageCache(manager, cwd);
+		if (!path || !(await exists(path))) continue;
+		caches.push({
+			manager,
+			path,
+			size: await measure(path),
+			action: CACHE_ACTIONS[manager],
+		});
+	}
+
+	return caches;
+}
+
+/**
+ * Prunes a cache with its manager's own command, then measures what was freed.
+ * The caches of yarn and bun are cleared entirely (see `CACHE_ACTIONS`).
+ * A failing command is reported in the result rather than thrown.
+ * @param cache A cache returned by `findPackageCaches`
+ * @param cwd Directory to run the manager in
+ * @returns How much the cache shrank
+ */
+export async function prunePackageCache(
+	cache: PackageCache,
+	cwd: string = process.cwd(),
+): Promise<PruneResult> {
+	const [command, args] = PRUNE_COMMANDS[cache.manager];
+
+	try {
+		await execa(command, args, { cwd });
+	} catch (error) {
+		return {
+			manager: cache.manager,
+			freedBytes: 0,
+			error: `${command} ${args.join(" ")} failed: ${error instanceof Error ? error.message : error}`,
+		};
+	}
+
+	const sizeAfter = (await exists(cache.path)) ? await measure(cache.path) : 0;
+	return {
+		manager: cache.manager,
+		freedBytes: Math.max(0, cache.size - sizeAfter),
+	};
+}
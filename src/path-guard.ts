@@ -0,0 +1,129 @@
+import { lstat, readFile, realpath, stat } from "node:fs/promises";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+
+// True for the directory itself and anything below it
+const isInsideDir = (path: string, dir: string): boolean => {
+	const rel = relative(dir, path);
+	return (
+		rel === "" ||
+		(rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel))
+	);
+};
+
+const realPathOf = (path: string): Promise<string | null> =>
+	realpath(path).catch(() => null);
+
+// mountinfo escapes spaces and other special characters as octal sequences
+const unescapeMountPath = (path: string): string =>
+	path.replace(/\\([0-7]{3})/g, (_, code: string) =>
+		String.fromCharCode(Number.parseInt(code, 8)),
+	);
+
+/**
+ * Lists the mount points of the system. Only Linux exposes them without running
+ * a command; elsewhere the list is empty and mounts are only recognized by their device.
+ * @returns Absolute mount point paths
+ */
+export async function listMountPoints(): Promise<string[]> {
+	try {
+		const mountinfo = await readFile("/proc/self/mountinfo", "utf-8");
+		return mountinfo
+			.split("\n")
+			.map((line) => line.split(" ")[4])
+			.filter((path): path is string => Boolean(path))
+			.map(unescapeMountPath);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Keeps cleanups inside the project: tells which targets resolve outside of it
+ * through a symlink, live on another filesystem, or contain a mount point.
+ */
+export class PathGuard {
+	private constructor(
+		private readonly rootDir: string,
+		private readonly realRoot: string | null,
+		private readonly rootDevice: number | null,
+		private readonly mountPoints: string[],
+	) {}
+
+	/**
+	 * Resolves the project root and the mount points below it.
+	 * @param rootDir The project root
+	 */
+	static async create(rootDir: string): Promise<PathGuard> {
+		const realRoot = await realPathOf(rootDir);
+		const rootDevice = realRoot
+			? await stat(realRoot).then(
+					(stats) => stats.dev,
+					() => null,
+				)
+			: null;
+		const mountPoints = realRoot
+			? (await listMountPoints()).filter(
+					(mountPoint) =>
+						mountPoint !== realRoot && isInsideDir(mountPoint, realRoot),
+				)
+			: [];
+		return new PathGuard(resolve(rootDir), realRoot, rootDevice, mountPoints);
+	}
+
+	/**
+	 * Checks whether a target can be cleaned without touching anything outside the project.
+	 * Targets that do not exist (anymore) pass.
+	 * @param absolutePath Absolute path of the target
+	 * @returns Why the target must be kept, or null when it is safe
+	 */
+	async check(absolutePath: string): Promise<string | null> {
+		if (!this.realRoot) return null;
+
+		const realPath = await realPathOf(absolutePath);
+		if (!realPath) return null;
+
+		if (!isInsideDir(realPath, this.realRoot)) {
+			const isSymlink = await lstat(absolutePath).then(
+				(stats) => stats.isSymbolicLink(),
+				() => false,
+			);
+			return isSymlink
+				? `symlink to ${realPath}, outside the project`
+				: `resolves to ${realPath}, outside the project`;
+		}
+
+		const device = await stat(realPath).then(
+			(stats) => stats.dev,
+			() => null,
+		);
+		if (device !== null && device !== this.rootDevice) {
+			return "on another filesystem (mount point)";
+		}
+
+		const mountPoint = this.mountPoints.find((candidate) =>
+			isInsideDir(candidate, realPath),
+		);
+		if (mountPoint) {
+			return `contains the mount point ${relative(this.realRoot, mountPoint)}`;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Throws unless a target's real path is inside the project. Run right before
+	 * deleting, as the filesystem may have changed since discovery.
+	 * @param absolutePath Absolute path of the target
+	 * @throws Error if the target resolves outside the project
+	 */
+	async assertInside(absolutePath: string): Promise<void> {
+		if (!this.realRoot) return;
+
+		const realPath = await realPathOf(absolutePath);
+		if (realPath && !isInsideDir(realPath, this.realRoot)) {
+			throw new Error(
+				`Refusing to delete ${absolutePath}: it resolves to ${realPath}, outside ${this.rootDir}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,368 @@
+import { access } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import chalk from "chalk";
+import * as v from "valibot";
+import type { PurgoConfig } from "./config";
+import { ConfigError } from "./errors";
+import { detectPresets, getPresetTargets } from "./presets";
+import type { Reporter } from "./reporter";
+import type { Target } from "./targets";
+
+/**
+ * Targets of every JavaScript project. Framework-specific ones come from presets.
+ */
+export const DEFAULT_TARGETS = ["node_modules", "dist", "build", "coverage"];
+
+/**
+ * What every plugin callback is told about the project.
+ */
+export interface PluginContext {
+	/** Absolute path of the project root. */
+	rootDir: string;
+	/** The merged configuration of the project. */
+	config: PurgoConfig;
+}
+
+/**
+ * Where a plugin is asked for targets: the project root or a workspace package.
+ */
+export interface PluginTargetContext extends PluginContext {
+	/** Directory relative to rootDir, with forward slashes; "." for the whole project. */
+	dir: string;
+}
+
+/**
+ * A target found in the project, before it is measured.
+ */
+export interface PluginCandidate {
+	/** Path relative to rootDir, with forward slashes. */
+	path: string;
+	/** Absolute path. */
+	absolutePath: string;
+	/** Workspace package the target belongs to, if any. */
+	workspace?: string;
+}
+
+/**
+ * A target about to be deleted.
+ */
+export interface PluginDeletion {
+	/** Path relative to rootDir, with forward slashes. */
+	path: string;
+	/** Absolute path. */
+	absolutePath: string;
+	/** Size in bytes (0 when sizes are not measured). */
+	size: number;
+}
+
+/**
+ * Extends a cleanup. Every callback is optional.
+ */
+export interface PurgoPlugin {
+	/** Unique name, shown in skip reasons and errors. */
+	name: string;
+	/**
+	 * Contributes targets for a directory of the project, in the target syntax.
+	 * Not called when targets are set explicitly (`--targets`, workspace `targets`).
+	 */
+	targets?: (context: PluginTargetContext) => Target[] | Promise<Target[]>;
+	/**
+	 * Looks at each candidate before it is measured.
+	 * @returns Why the candidate is skipped, or nothing to keep it
+	 */
+	filter?: (
+		candidate: PluginCandidate,
+		context: PluginContext,
+	) => string | null | undefined | Promise<string | null | undefined>;
+	/**
+	 * Called right before a target is deleted.
+	 * @returns false, or why, to keep the target; nothing to let it go
+	 */
+	beforeDelete?: (
+		target: PluginDeletion,
+		context: PluginContext,
+	) => boolean | string | undefined | Promise<boolean | string | undefined>;
+	/**
+	 * Reporter events the plugin receives after the active reporter.
+	 * Their return values are ignored, promises are not awaited and errors are
+	 * reported without stopping the cleanup.
+	 */
+	reporter?: Partial<Reporter>;
+}
+
+const isPlugin = (value: unknown): value is PurgoPlugin =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as PurgoPlugin).name === "string";
+
+export const pluginEntrySchema = v.union([
+	v.string(),
+	v.custom<PurgoPlugin>(
+		isPlugin,
+		"Invalid plugin. Use a built-in plugin name, a module or an object with a name",
+	),
+]);
+
+/**
+ * A plugin in the `plugins` list of the config: the name of a built-in plugin,
+ * a module (package name or path relative to the project root) exporting a
+ * plugin or a function returning one, or the plugin itself in JavaScript configs.
+ */
+export type PluginEntry = v.InferOutput<typeof pluginEntrySchema>;
+
+/**
+ * Returns the plugin as is, for type checking and completion in plugin modules.
+ * @param plugin The plugin
+ */
+export function definePlugin(plugin: PurgoPlugin): PurgoPlugin {
+	return plugin;
+}
+
+const exists = (path: string): Promise<boolean> =>
+	access(path).then(
+		() => true,
+		() => false,
+	);
+
+const hasAnyFile = async (dir: string, files: string[]): Promise<boolean> =>
+	(await Promise.all(files.map((file) => exists(join(dir, file))))).includes(
+		true,
+	);
+
+/**
+ * Built-in JavaScript and TypeScript targets: the configured `targets` (or
+ * `DEFAULT_TARGETS`) and those of the presets in use. Always active.
+ */
+export const javascriptPlugin: PurgoPlugin = {
+	name: "javascript",
+	async targets({ rootDir, config, dir }) {
+		// Presets are detected per package, unless the config picks them or sets targets
+		const detect = config.presets === undefined && config.targets === undefined;
+		const presets = [...(config.presets ?? [])];
+		if (detect) {
+			presets.push(...(await detectPresets(rootDir)));
+			if (dir !== ".")
+				presets.push(...(await detectPresets(join(rootDir, dir))));
+		}
+		return [
+			...(config.targets ?? DEFAULT_TARGETS),
+			...getPresetTargets([...new Set(presets)]),
+		];
+	},
+};
+
+/**
+ * Caches of Python tools, in directories holding a Python project.
+ */
+export const pythonPlugin: PurgoPlugin = {
+	name: "python",
+	async targets({ rootDir, dir }) {
+		const isPython = await hasAnyFile(join(rootDir, dir), [
+			"pyproject.toml",
+			"setup.py",
+			"setup.cfg",
+			"requirements.txt",
+			"Pipfile",
+		]);
+		return isPython
+			? [
+					{ pattern: "__pycache__", type: "dir" },
+					".pytest_cache",
+					".mypy_cache",
+					".ruff_cache",
+					".tox",
+					".nox",
+					{ pattern: "*.egg-info", type: "dir" },
+				]
+			: [];
+	},
+};
+
+/**
+ * Cargo's build directory, in directories holding a Cargo.toml.
+ */
+export const rustPlugin: PurgoPlugin = {
+	name: "rust",
+	async targets({ rootDir, dir }) {
+		return (await exists(join(rootDir, dir, "Cargo.toml")))
+			? [{ pattern: "/target", type: "dir" }]
+			: [];
+	},
+};
+
+/**
+ * Plugins shipped with purgo, enabled by name in the `plugins` list.
+ * The javascript plugin is always active.
+ */
+export const BUILTIN_PLUGINS: Record<string, PurgoPlugin> = {
+	javascript: javascriptPlugin,
+	python: pythonPlugin,
+	rust: rustPlugin,
+};
+
+const importPlugin = async (
+	specifier: string,
+	rootDir: string,
+): Promise<PurgoPlugin> => {
+	const builtin = BUILTIN_PLUGINS[specifier];
+	if (builtin) return builtin;
+
+	let modulePath: string;
+	try {
+		// Resolved like an import written in the project root
+		modulePath = createRequire(join(resolve(rootDir), "package.json")).resolve(
+			specifier,
+		);
+	} catch {
+		throw new ConfigError(
+			`Plugin "${specifier}" could not be found from ${resolve(rootDir)}`,
+		);
+	}
+
+	const module = await import(pathToFileURL(modulePath).href);
+	const exported = module.default ?? module;
+	const plugin = typeof exported === "function" ? await exported() : exported;
+	if (!isPlugin(plugin)) {
+		throw new ConfigError(
+			`Plugin "${specifier}" does not export a plugin (an object with a name)`,
+		);
+	}
+	return plugin;
+};
+
+/**
+ * Resolves the `plugins` list of a config to the plugins in use, the javascript
+ * plugin first. A plugin listed twice (by name) is only used once.
+ * @param entries Entries of the `plugins` list
+ * @param rootDir The project root, modules are resolved from
+ * @returns The plugins, in order
+ * @throws ConfigError if a module cannot be found or does not export a plugin
+ */
+export async function loadPlugins(
+	entries: PluginEntry[] = [],
+	rootDir: string,
+): Promise<PurgoPlugin[]> {
+	const plugins = [javascriptPlugin];
+	for (const entry of entries) {
+		const plugin =
+			typeof entry === "string" ? await importPlugin(entry, rootDir) : entry;
+		if (!plugins.some((other) => other.name === plugin.name)) {
+			plugins.push(plugin);
+		}
+	}
+	return plugins;
+}
+
+/**
+ * Collects the targets the plugins contribute for a directory.
+ * @param plugins Plugins in use
+ * @param context The project and directory
+ */
+export async function getPluginTargets(
+	plugins: PurgoPlugin[],
+	context: PluginTargetContext,
+): Promise<Target[]> {
+	const targets = await Promise.all(
+		plugins.map(async (plugin) => (await plugin.targets?.(context)) ?? []),
+	);
+	return targets.flat();
+}
+
+/**
+ * Asks the plugins whether a candidate is skipped.
+ * @param plugins Plugins in use
+ * @param candidate The candidate
+ * @param context The project
+ * @returns The first reason given, or null to keep the candidate
+ */
+export async function filterWithPlugins(
+	plugins: PurgoPlugin[],
+	candidate: PluginCandidate,
+	context: PluginContext,
+): Promise<string | null> {
+	for (const plugin of plugins) {
+		const reason = await plugin.filter?.(candidate, context);
+		if (reason) return reason;
+	}
+	return null;
+}
+
+/**
+ * Asks the plugins whether a target may be deleted.
+ * @param plugins Plugins in use
+ * @param target The target about to be deleted
+ * @param context The project
+ * @returns Why the target is kept, or null when every plugin lets it go
+ * @throws Error naming the plugin if one of them fails
+ */
+export async function findPluginVeto(
+	plugins: PurgoPlugin[],
+	target: PluginDeletion,
+	context: PluginContext,
+): Promise<string | null> {
+	for (const plugin of plugins) {
+		if (!plugin.beforeDelete) continue;
+		let verdict: boolean | string | undefined;
+		try {
+			verdict = await plugin.beforeDelete(target, context);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`${plugin.name} plugin failed: ${message}`);
+		}
+		if (verdict === false) return `kept by the ${plugin.name} plugin`;
+		if (typeof verdict === "string") return verdict;
+	}
+	return null;
+}
+
+const reportListenerFailure = (plugin: PurgoPlugin, error: unknown): void => {
+	const message = error instanceof Error ? error.message : String(error);
+	console.error(
+		chalk.red(`✗ ${plugin.name} plugin reporter failed: ${message}`),
+	);
+};
+
+/**
+ * Forwards every event of a reporter to the plugins' reporters too.
+ * Answers (confirmations, selections) only come from the reporter itself, and
+ * a failing plugin reporter is reported without interrupting the cleanup.
+ * @param reporter The active reporter
+ * @param plugins Plugins in use
+ */
+export function withPluginReporters(
+	reporter: Reporter,
+	plugins: PurgoPlugin[],
+): Reporter {
+	const listeners = plugins.filter((plugin) => plugin.reporter);
+	if (listeners.length === 0) return reporter;
+
+	return new Proxy(reporter, {
+		get(target, property, receiver) {
+			const value = Reflect.get(target, property, receiver);
+			if (typeof value !== "function") return value;
+			return (...args: unknown[]) => {
+				const result = value.apply(target, args);
+				for (const plugin of listeners) {
+					const listener = plugin.reporter;
+					const handler = listener?.[property as keyof Reporter];
+					if (typeof handler !== "function") continue;
+					try {
+						const returned = (handler as (...args: unknown[]) => unknown).apply(
+							listener,
+							args,
+						);
+						// Async handlers fail later, without a caller to catch them
+						Promise.resolve(returned).catch((error) =>
+							reportListenerFailure(plugin, error),
+						);
+					} catch (error) {
+						reportListenerFailure(plugin, error);
+					}
+				}
+				return result;
+			};
+		},
+	});
+}
@@ -0,0 +1,165 @@
+import { access, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import * as v from "valibot";
+import type { Target } from "./targets";
+
+/**
+ * Targets of a framework or tool, and how to tell a project uses it.
+ */
+export interface Preset {
+	/** What the preset cleans, added to the project's targets. */
+	targets: Target[];
+	/** Dependencies revealing the tool; a trailing slash matches a whole scope. */
+	dependencies: string[];
+	/** Files at the project root revealing the tool. */
+	files?: string[];
+}
+
+export const PRESET_NAMES = [
+	"next",
+	"nuxt",
+	"vite",
+	"sveltekit",
+	"astro",
+	"remix",
+	"react-native",
+	"angular",
+	"turbo",
+	"nx",
+	"storybook",
+	"jest",
+	"playwright",
+	"typescript",
+] as const;
+
+/**
+ * A built-in preset, such as "next" or "turbo".
+ */
+export type PresetName = (typeof PRESET_NAMES)[number];
+
+export const presetNameSchema = v.picklist(PRESET_NAMES);
+
+export const PRESETS: Record<PresetName, Preset> = {
+	next: {
+		// .vercel itself links the project to Vercel, only its build output goes
+		targets: [".next", ".vercel/output"],
+		dependencies: ["next"],
+	},
+	nuxt: {
+		targets: [".nuxt", ".output"],
+		dependencies: ["nuxt"],
+	},
+	vite: {
+		targets: ["dist", "node_modules/.vite"],
+		dependencies: ["vite"],
+	},
+	sveltekit: {
+		targets: [".svelte-kit"],
+		dependencies: ["@sveltejs/kit"],
+	},
+	astro: {
+		targets: [".astro", "dist"],
+		dependencies: ["astro"],
+	},
+	remix: {
+		targets: [".cache", "build", "public/build"],
+		dependencies: ["@remix-run/"],
+	},
+	"react-native": {
+		targets: [".expo", "android/app/build", "android/.gradle", "ios/build"],
+		dependencies: ["react-native", "expo"],
+	},
+	angular: {
+		targets: [".angular"],
+		dependencies: ["@angular/core"],
+		files: ["angular.json"],
+	},
+	turbo: {
+		targets: [".turbo"],
+		dependencies: ["turbo"],
+		files: ["turbo.json"],
+	},
+	nx: {
+		targets: [".nx/cache", ".nx/workspace-data"],
+		dependencies: ["nx"],
+		files: ["nx.json"],
+	},
+	storybook: {
+		targets: ["storybook-static"],
+		dependencies: ["storybook", "@storybook/"],
+	},
+	jest: {
+		targets: ["coverage"],
+		dependencies: ["jest"],
+	},
+	playwright: {
+		targets: ["playwright-report", "test-results", "blob-report"],
+		dependencies: ["@playwright/test", "playwright"],
+	},
+	typescript: {
+		targets: [{ pattern: "*.tsbuildinfo", type: "file" }],
+		dependencies: ["typescript"],
+	},
+};
+
+const DEPENDENCY_FIELDS = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+] as const;
+
+const readDependencies = async (dir: string): Promise<string[]> => {
+	try {
+		const pkg = JSON.parse(await readFile(join(dir, "package.json"), "utf-8"));
+		return DEPENDENCY_FIELDS.flatMap((field) =>
+			Object.keys((pkg?.[field] as Record<string, string> | undefined) ?? {}),
+		);
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Finds the presets relevant to a project from its package.json dependencies
+ * and the tool config files at its root.
+ * @param dir The project (or workspace package) directory
+ * @returns The detected presets, in `PRESET_NAMES` order
+ */
+export async function detectPresets(dir: string): Promise<PresetName[]> {
+	const dependencies = await readDependencies(dir);
+	const exists = (file: string) =>
+		access(join(dir, file)).then(
+			() => true,
+			() => false,
+		);
+
+	const detected = await Promise.all(
+		PRESET_NAMES.map(async (name) => {
+			const preset = PRESETS[name];
+			const hasDependency = preset.dependencies.some((expected) =>
+				expected.endsWith("/")
+					? dependencies.some((dep) => dep.startsWith(expected))
+					: dependencies.includes(expected),
+			);
+			const hasFile = (
+				await Promise.all((preset.files ?? []).map(exists))
+			).some(Boolean);
+			return hasDependency || hasFile;
+		}),
+	);
+
+	return PRESET_NAMES.filter((_, index) => detected[index]);
+}
+
+/**
+ * Lists the targets of some presets, without duplicates.
+ * @param names The presets
+ */
+export function getPresetTargets(names: readonly PresetName[]): Target[] {
+	const targets = names.flatMap((name) => PRESETS[name].targets);
+	return targets.filter(
+		(target, index) =>
+			typeof target !== "string" || targets.indexOf(target) === index,
+	);
+}
@@ -0,0 +1,178 @@
+import type { SizeMode } from "./sizes";
+import type {
+	CleanSummary,
+	ItemResult,
+	ProgressOptions,
+	SkippedTarget,
+	TargetWithSize,
+} from "./ui";
+import type { PackageManager } from "./utils";
+
+/**
+ * A target offered in the interactive picker.
+ */
+export interface SelectableTarget {
+	/** Path relative to the project root. */
+	path: string;
+	/** Size in bytes. */
+	size: number;
+	/** How the size was obtained, when it is not an exact measure. */
+	sizeMode?: SizeMode;
+	/** When the target was last touched, when known. */
+	lastActivity?: Date;
+	/** True if the target holds uncommitted git changes. */
+	dirty?: boolean;
+}
+
+/**
+ * Outcome of the interactive picker.
+ */
+export interface TargetSelection {
+	/** Paths the user kept ticked. */
+	selected: string[];
+	/** If true, unticked paths are added to the project's ignore list. */
+	remember: boolean;
+}
+
+/**
+ * Receives every lifecycle event of a cleanup and decides how to present it.
+ * `CleanUI` is the default terminal implementation; pass your own through
+ * `CleanOptions.reporter` to render progress elsewhere (an editor panel, a web dashboard...).
+ * Extend `SilentReporter` to only handle the events you care about.
+ */
+export interface Reporter {
+	/** The search for targets has started. */
+	startSearching(): void;
+	/** The search moved on to a new step. */
+	updateSearching(message: string): void;
+	/** The search is over, whatever its outcome. */
+	stopSpinner(): void;
+	/** Targets left out by a filter (age, size...), with the reason why. */
+	showSkipped(skipped: SkippedTarget[]): void;
+	/** No target was found; the cleanup ends here. */
+	showNothingToClean(): void;
+	/** Targets were found, with their sizes. */
+	showTargets(targets: TargetWithSize[]): void;
+	/** Dry-run mode: nothing will be removed; the cleanup ends here. */
+	showDryRunNotice(): void;
+	/**
+	 * Asks the user to confirm the deletion. With `force`, only called when the
+	 * cleanup goes beyond the guardrails.
+	 * @param message The question
+	 * @param initial The suggested answer: false for the guardrails, true otherwise
+	 * @returns true to proceed, false to cancel
+	 */
+	confirm(message: string, initial?: boolean): Promise<boolean>;
+	/**
+	 * Lets the user pick which targets to delete (`interactive` mode).
+	 * Replaces the confirmation; selecting nothing cancels the cleanup.
+	 * @param targets Targets sorted by size, largest first
+	 */
+	selectTargets(targets: SelectableTarget[]): Promise<TargetSelection>;
+	/** Unticked targets were added to the ignore list in this file. */
+	showIgnoreListUpdated(filepath: string, patterns: string[]): void;
+	/** The ignore list could not be updated; the patterns are to be added by hand. */
+	showIgnoreListError(error: unknown, patterns: string[]): void;
+	/** The user declined the confirmation; the cleanup ends here. */
+	showCancelled(): void;
+	/** The confirmation was skipped because `force` is set. */
+	showForceMode(): void;
+	/** Targets are archived to this directory before being removed. */
+	showBackupLocation(dir: string): void;
+	/** Targets are moved to this trash directory instead of being removed. */
+	showTrashLocation(dir: string): void;
+	/** Removal of the targets (a few at a time) has started. */
+	startProgress(total: number, operation?: string): void;
+	/** One more target was processed; `bytesDone` and `totalBytes` track the bytes removed so far. */
+	updateProgress(options: ProgressOptions): void;
+	/** Removal is over. */
+	stopProgress(success?: boolean, message?: string): void;
+	/** Fast deletion moved this many targets aside; a background process removes them. */
+	showBackgroundRemoval(count: number): void;
+	/** Removal of a target failed with a permission error and is retried. */
+	showRetrying(path: string, attempt: number, maxRetries: number): void;
+	/** A single target was removed or failed. */
+	showItemResult(result: ItemResult): void;
+	/** Totals of the cleanup. */
+	showSummary(summary: CleanSummary): void;
+	/** Dependencies are being reinstalled. */
+	startReinstall(packageManager: PackageManager): void;
+	/** Dependencies were reinstalled. */
+	showReinstallSuccess(packageManager: string): void;
+	/** Reinstalling dependencies failed. */
+	showReinstallError(error: unknown, packageManager: string): void;
+	/** Dependencies were not reinstalled. */
+	showReinstallSkipped(reason: string): void;
+	/** The cleanup stopped with this error; `finish` follows and the error is rethrown. */
+	showError(error: unknown): void;
+	/** Called once when the cleanup is over, whatever its outcome. */
+	finish(): void;
+}
+
+/**
+ * Reporter that ignores every event, gives the suggested answer to every
+ * confirmation (so it declines going past the guardrails) and keeps every
+ * target selected.
+ * Useful in tests and as a base class for custom reporters.
+ */
+export class SilentReporter implements Reporter {
+	startSearching(): void {}
+
+	updateSearching(_message: string): void {}
+
+	stopSpinner(): void {}
+
+	showSkipped(_skipped: SkippedTarget[]): void {}
+
+	showNothingToClean(): void {}
+
+	showTargets(_targets: TargetWithSize[]): void {}
+
+	showDryRunNotice(): void {}
+
+	async confirm(_message: string, initial = true): Promise<boolean> {
+		return initial;
+	}
+
+	async selectTargets(targets: SelectableTarget[]): Promise<TargetSelection> {
+		return { selected: targets.map((target) => target.path), remember: false };
+	}
+
+	showIgnoreListUpdated(_filepath: string, _patterns: string[]): void {}
+
+	showIgnoreListError(_error: unknown, _patterns: string[]): void {}
+
+	showCancelled(): void {}
+
+	showForceMode(): void {}
+
+	showBackupLocation(_dir: string): void {}
+
+	showTrashLocation(_dir: string): void {}
+
+	startProgress(_total: number, _operation?: string): void {}
+
+	updateProgress(_options: ProgressOptions): void {}
+
+	stopProgress(_success?: boolean, _message?: string): void {}
+
+	showBackgroundRemoval(_count: number): void {}
+
+	showRetrying(_path: string, _attempt: number, _maxRetries: number): void {}
+
+	showItemResult(_result: ItemResult): void {}
+
+	showSummary(_summary: CleanSummary): void {}
+
+	startReinstall(_packageManager: PackageManager): void {}
+
+	showReinstallSuccess(_packageManager: string): void {}
+
+	showReinstallError(_error: unknown, _packageManager: string): void {}
+
+	showReinstallSkipped(_reason: string): void {}
+
+	showError(_error: unknown): void {}
+
+	finish(): void {}
+}
@@ -0,0 +1,188 @@
+import { existsSync } from "node:fs";
+import { cp, mkdir, readdir, readFile, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { execa } from "execa";
+import * as v from "valibot";
+import {
+	type BackupManifest,
+	type BackupManifestEntry,
+	backupManifestSchema,
+	getDefaultBackupDir,
+	MANIFEST_FILE,
+	ManifestRun,
+} from "./backup";
+import type { ErrorItem } from "./ui";
+import { movePath } from "./utils";
+
+/**
+ * Options for restoring a previous cleanup.
+ */
+export interface RestoreOptions {
+	/** If true, replaces paths that were recreated since the cleanup. */
+	overwrite?: boolean;
+	/**
+	 * Directory (or directories) where the run is stored. Entries moved back
+	 * from the trash are dropped from its manifest, and the run is removed once
+	 * nothing is left in it.
+	 */
+	backupDirs?: string | string[];
+}
+
+/**
+ * Outcome of restoring a backup run.
+ */
+export interface RestoreResult {
+	/** Absolute paths that were put back in place. */
+	restored: string[];
+	/** Entries left untouched because their path already exists again. */
+	skipped: ErrorItem[];
+	/** Entries that could not be restored. */
+	errors: ErrorItem[];
+}
+
+/**
+ * Lists every run found in one or more backup/trash directories, newest first.
+ * Directories without a valid manifest are ignored.
+ * @param backupDirs Directory (or directories) where runs are stored
+ * @returns The manifests of all runs
+ */
+export async function listBackupRuns(
+	backupDirs: string | string[] = getDefaultBackupDir(),
+): Promise<BackupManifest[]> {
+	const runs: BackupManifest[] = [];
+
+	for (const backupDir of Array.isArray(backupDirs)
+		? backupDirs
+		: [backupDirs]) {
+		let entries: string[];
+		try {
+			entries = await readdir(backupDir);
+		} catch {
+			continue;
+		}
+
+		for (const entry of entries) {
+			try {
+				const content = await readFile(
+					join(backupDir, entry, MANIFEST_FILE),
+					"utf-8",
+				);
+				const validation = v.safeParse(
+					backupManifestSchema,
+					JSON.parse(content),
+				);
+				if (validation.success) {
+					runs.push(validation.output);
+				}
+			} catch {
+				// Not a run directory (or an unreadable one)
+			}
+		}
+	}
+
+	return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Finds a backup or trash run by its full ID or by a unique ID prefix.
+ * @param id The run ID or prefix
+ * @param backupDirs Directory (or directories) where runs are stored
+ * @returns The matching manifest
+ * @throws Error if no run or more than one run matches
+ */
+export async function findBackupRun(
+	id: string,
+	backupDirs: string | string[] = getDefaultBackupDir(),
+): Promise<BackupManifest> {
+	const runs = await listBackupRuns(backupDirs);
+	const exact = runs.find((run) => run.id === id);
+	if (exact) return exact;
+
+	const matches = runs.filter((run) => run.id.startsWith(id));
+	if (matches.length === 0) {
+		throw new Error(`No run found with ID "${id}"`);
+	}
+	if (matches.length > 1) {
+		throw new Error(
+			`Backup ID "${id}" is ambiguous, it matches ${matches.length} runs`,
+		);
+	}
+	return matches[0] as BackupManifest;
+}
+
+/**
+ * Puts every entry of a backup or trash run back where it was removed from.
+ * Paths that exist again are skipped unless `overwrite` is set.
+ * @param manifest The manifest of the run to restore
+ * @param options Restore options
+ * @returns Which entries were restored, skipped or failed
+ */
+export async function restoreBackupRun(
+	manifest: BackupManifest,
+	options: RestoreOptions = {},
+): Promise<RestoreResult> {
+	const { overwrite = false, backupDirs = [] } = options;
+	const result: RestoreResult = { restored: [], skipped: [], errors: [] };
+	const remaining: BackupManifestEntry[] = [];
+
+	for (const entry of manifest.entries) {
+		const { originalPath, storedPath } = entry;
+
+		if (!overwrite && existsSync(originalPath)) {
+			remaining.push(entry);
+			result.skipped.push({
+				path: originalPath,
+				message: "Path already exists. Use --overwrite to replace it.",
+			});
+			continue;
+		}
+
+		try {
+			if (!existsSync(storedPath)) {
+				throw new Error(`Backup file is missing: ${storedPath}`);
+			}
+
+			await rm(originalPath, { recursive: true, force: true });
+			await mkdir(dirname(originalPath), { recursive: true });
+
+			if (manifest.format === "move") {
+				await movePath(storedPath, originalPath);
+				if (entry.trashInfoPath) {
+					await rm(entry.trashInfoPath, { force: true });
+				}
+			} else if (manifest.format === "tar") {
+				await execa("tar", ["-xzf", storedPath, "-C", dirname(originalPath)]);
+			} else {
+				await cp(storedPath, originalPath, {
+					recursive: true,
+					verbatimSymlinks: true,
+				});
+			}
+
+			result.restored.push(originalPath);
+		} catch (error) {
+			remaining.push(entry);
+			const message = error instanceof Error ? error.message : String(error);
+			result.errors.push({ path: originalPath, message });
+		}
+	}
+
+	// Trashed entries are gone from the trash once moved back; backups stay restorable
+	if (manifest.format !== "move" || result.restored.length === 0) return result;
+	const runDir = (Array.isArray(backupDirs) ? backupDirs : [backupDirs])
+		.map((dir) => join(dir, manifest.id))
+		.find((dir) => existsSync(join(dir, MANIFEST_FILE)));
+	if (!runDir) return result;
+
+	if (remaining.length === 0) {
+		await rm(runDir, { recursive: true, force: true });
+	} else {
+		await new ManifestRun(runDir, {
+			...manifest,
+			entries: remaining,
+			totalSize: remaining.reduce((sum, entry) => sum + entry.size, 0),
+		}).save();
+	}
+
+	return result;
+}
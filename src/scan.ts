@@ -0,0 +1,160 @@
+import { dirname, resolve } from "node:path";
+import { glob } from "glob";
+import { loadConfig } from "./config";
+import { discoverTargets } from "./discovery";
+import type { Duration, Size, SizedTarget } from "./filters";
+import type { SizeMode } from "./sizes";
+import type { Target } from "./targets";
+import type { SkippedTarget } from "./ui";
+import { deduplicatePaths, getGlobalConfigPath } from "./utils";
+import { getWorkspaceScopes } from "./workspaces";
+
+/**
+ * Files whose presence marks a directory as a project root.
+ */
+export const PROJECT_MARKERS = [
+	"package.json",
+	"bun.lockb",
+	"bun.lock",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"package-lock.json",
+];
+
+/**
+ * Options for scanning a workspace.
+ */
+export interface ScanOptions {
+	/** Directory containing the projects to scan. */
+	baseDir: string;
+	/** How many directory levels below baseDir to look for projects. Unlimited by default. */
+	depth?: number;
+	/** Path to a global configuration file. */
+	configPath?: string;
+	/** Targets to find. Overrides each project's config if provided. */
+	targets?: Target[];
+	/** Only keeps targets untouched for at least this long. */
+	olderThan?: Duration;
+	/** If true, a recent commit counts as activity. */
+	useGitAge?: boolean;
+	/** Skips targets smaller than this. */
+	minSize?: Size;
+	/** How many targets of a project are measured at once. */
+	concurrency?: number;
+	/** How target sizes are obtained. */
+	sizeMode?: SizeMode;
+	/** Called before each project is scanned. */
+	onProject?: (rootDir: string) => void;
+}
+
+/**
+ * Targets found in one project of a workspace.
+ */
+export interface ProjectScan {
+	/** Absolute path of the project root. */
+	rootDir: string;
+	/** Targets to clean, relative to rootDir, with their size in bytes. */
+	targets: SizedTarget[];
+	/** Targets left out by a filter, with the reason why. */
+	skipped: SkippedTarget[];
+	/** Combined size of the targets in bytes. */
+	totalSize: number;
+	/** Why the project could not be scanned (e.g. an invalid config). */
+	error?: string;
+}
+
+/**
+ * Outcome of a workspace scan.
+ */
+export interface ScanResult {
+	/** Every project found, in path order. */
+	projects: ProjectScan[];
+	/** Combined size of all targets in bytes. */
+	totalSize: number;
+}
+
+/**
+ * Finds the project roots below a directory, identified by a package.json or a lockfile.
+ * Projects nested in another project (e.g. monorepo packages) are covered by the
+ * outer one and are not returned.
+ * @param baseDir Directory to search from
+ * @param depth How many directory levels below baseDir to search
+ * @returns Absolute project roots, sorted by path
+ */
+export async function findProjectRoots(
+	baseDir: string,
+	depth?: number,
+): Promise<string[]> {
+	const markers = await glob(
+		PROJECT_MARKERS.map((marker) => `**/${marker}`),
+		{
+			cwd: baseDir,
+			dot: true,
+			ignore: ["**/node_modules/**", "**/.git/**"],
+			maxDepth: depth === undefined ? undefined : depth + 1,
+		},
+	);
+
+	const dirs = [...new Set(markers.map((marker) => dirname(marker)))];
+	if (dirs.includes(".")) return [resolve(baseDir)];
+
+	return deduplicatePaths(dirs)
+		.map((dir) => resolve(baseDir, dir))
+		.sort();
+}
+
+/**
+ * Finds every project below a directory and its targets, using each project's own config.
+ * A project whose config cannot be loaded is reported with an error instead of
+ * aborting the scan.
+ * @param options Scan options
+ * @returns The projects found with their targets and totals
+ */
+export async function scanWorkspace(options: ScanOptions): Promise<ScanResult> {
+	const { baseDir, depth, configPath, onProject } = options;
+	const roots = await findProjectRoots(baseDir, depth);
+
+	const projects: ProjectScan[] = [];
+	// One project at a time, so large workspaces do not saturate the disk
+	for (const rootDir of roots) {
+		onProject?.(rootDir);
+		try {
+			const { config } = await loadConfig({
+				projectRoot: rootDir,
+				globalConfigPath: getGlobalConfigPath(configPath),
+			});
+			// Packages of a monorepo are searched like `cleanProject` does
+			const scopes = await getWorkspaceScopes(rootDir, {}, config.workspaces);
+			const { targets, skipped } = await discoverTargets({
+				rootDir,
+				config,
+				targets: options.targets,
+				scopes,
+				olderThan: options.olderThan,
+				useGitAge: options.useGitAge,
+				minSize: options.minSize,
+				concurrency: options.concurrency,
+				sizeMode: options.sizeMode,
+			});
+			projects.push({
+				rootDir,
+				targets,
+				skipped,
+				totalSize: targets.reduce((sum, target) => sum + target.size, 0),
+			});
+		} catch (error) {
+			projects.push({
+				rootDir,
+				targets: [],
+				skipped: [],
+				totalSize: 0,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	return {
+		projects,
+		totalSize: projects.reduce((sum, project) => sum + project.totalSize, 0),
+	};
+}
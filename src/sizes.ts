@@ -0,0 +1,286 @@
+import type { Dirent } from "node:fs";
+import {
+	lstat,
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { dirname, join } from "node:path";
+import getFolderSize from "get-folder-size";
+import * as v from "valibot";
+import { getCacheDir, toBytes } from "./utils";
+
+export const sizeModeSchema = v.picklist(["exact", "estimate", "none"]);
+
+/**
+ * How target sizes are obtained:
+ * - 'exact': every file is measured, reusing the sizes cached by previous runs
+ * - 'estimate': a sample of each directory is measured and extrapolated
+ * - 'none': targets are not measured, their size is reported as 0
+ */
+export type SizeMode = v.InferOutput<typeof sizeModeSchema>;
+
+const sizeCacheEntrySchema = v.object({
+	ino: v.number(),
+	mtimeMs: v.number(),
+	size: v.number(),
+	measuredAt: v.number(),
+});
+
+const sizeCacheFileSchema = v.object({
+	version: v.literal(1),
+	entries: v.record(v.string(), sizeCacheEntrySchema),
+});
+
+type SizeCacheEntry = v.InferOutput<typeof sizeCacheEntrySchema>;
+
+/**
+ * What identifies a directory's state: its inode and modification time.
+ */
+export interface DirectoryStamp {
+	ino: number;
+	mtimeMs: number;
+}
+
+/**
+ * Returns the file the sizes of previous runs are stored in.
+ */
+export function getSizeCacheFile(): string {
+	return join(getCacheDir(), "sizes.json");
+}
+
+const readEntries = async (
+	file: string,
+): Promise<Map<string, SizeCacheEntry>> => {
+	try {
+		const parsed = v.safeParse(
+			sizeCacheFileSchema,
+			JSON.parse(await readFile(file, "utf-8")),
+		);
+		return new Map(parsed.success ? Object.entries(parsed.output.entries) : []);
+	} catch {
+		return new Map();
+	}
+};
+
+/**
+ * Sizes measured by previous runs, stored on disk and keyed by absolute path.
+ * An entry is reused while the directory keeps its inode and mtime, i.e. until it
+ * is recreated or entries are added to or removed from it. Changes deeper in the
+ * tree do not touch that mtime, so entries also expire after a day.
+ */
+export class SizeCache {
+	private readonly TTL = 24 * 60 * 60 * 1000; // 1 day
+	private changed = false;
+
+	private constructor(
+		private readonly file: string,
+		private readonly entries: Map<string, SizeCacheEntry>,
+	) {}
+
+	/**
+	 * Loads the cache from disk. A missing or unreadable file gives an empty cache.
+	 * @param file Cache file. Defaults to `sizes.json` in the cache directory.
+	 */
+	static async load(file: string = getSizeCacheFile()): Promise<SizeCache> {
+		return new SizeCache(file, await readEntries(file));
+	}
+
+	private isValid(entry: SizeCacheEntry, now: number = Date.now()): boolean {
+		return now - entry.measuredAt < this.TTL;
+	}
+
+	get(path: string, stamp: DirectoryStamp): number | null {
+		const entry = this.entries.get(path);
+		if (
+			!entry ||
+			!this.isValid(entry) ||
+			entry.ino !== stamp.ino ||
+			entry.mtimeMs !== stamp.mtimeMs
+		) {
+			return null;
+		}
+		return entry.size;
+	}
+
+	set(path: string, stamp: DirectoryStamp, size: number): void {
+		this.entries.set(path, {
+			ino: stamp.ino,
+			mtimeMs: stamp.mtimeMs,
+			size,
+			measuredAt: Date.now(),
+		});
+		this.changed = true;
+	}
+
+	/**
+	 * Writes new entries to disk, merged with those other runs saved meanwhile.
+	 * Expired entries are dropped. Failures are ignored: the cache is only an optimization.
+	 */
+	async save(): Promise<void> {
+		if (!this.changed) return;
+
+		const now = Date.now();
+		const merged = new Map([
+			...(await readEntries(this.file)),
+			...this.entries,
+		]);
+		const entries = Object.fromEntries(
+			[...merged].filter(([, entry]) => this.isValid(entry, now)),
+		);
+
+		try {
+			await mkdir(dirname(this.file), { recursive: true });
+			// Written aside then renamed, so concurrent runs never read half a file
+			const tmpFile = `${this.file}.${process.pid}.tmp`;
+			await writeFile(tmpFile, JSON.stringify({ version: 1, entries }));
+			await rename(tmpFile, this.file);
+			this.changed = false;
+		} catch {
+			// Next run measures again
+		}
+	}
+}
+
+// Directories sampled in the first level of an estimate, shared out among deeper levels
+const ESTIMATE_BUDGET = 256;
+// Files sampled per directory, however small the budget left
+const MIN_FILE_SAMPLE = 16;
+
+// Evenly spread picks, so a sample does not only hold the first names in the listing
+const sample = <T>(items: T[], count: number): T[] => {
+	if (items.length <= count) return items;
+	const step = items.length / count;
+	return Array.from(
+		{ length: count },
+		(_, index) => items[Math.floor(index * step)] as T,
+	);
+};
+
+const average = (values: number[]): number =>
+	values.length === 0
+		? 0
+		: values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Files with other hard links (e.g. into pnpm's or bun's store) are assumed shared:
+// removing one link frees nothing
+const sizeOf = (path: string): Promise<number> =>
+	lstat(path).then(
+		(stats) => (stats.nlink > 1 ? 0 : stats.size),
+		() => 0,
+	);
+
+/**
+ * Approximates the size of a directory from a sample of its files and
+ * subdirectories, so huge trees are sized in a fraction of the time.
+ * @param path Absolute path of the directory (or file)
+ * @param budget How many subdirectories may be sampled, shared out among deeper levels
+ * @returns The estimated size in bytes
+ */
+export async function estimateFolderSize(
+	path: string,
+	budget: number = ESTIMATE_BUDGET,
+): Promise<number> {
+	let entries: Dirent[];
+	try {
+		entries = await readdir(path, { withFileTypes: true });
+	} catch {
+		// A file target, or a directory that just vanished
+		return await sizeOf(path);
+	}
+
+	const files = entries.filter((entry) => entry.isFile());
+	const dirs = entries.filter((entry) => entry.isDirectory());
+
+	const fileSizes = await Promise.all(
+		sample(files, Math.max(budget, MIN_FILE_SAMPLE)).map((file) =>
+			sizeOf(join(path, file.name)),
+		),
+	);
+	const sampledDirs = sample(dirs, budget);
+	const childBudget = Math.max(
+		1,
+		Math.floor(budget / Math.max(1, sampledDirs.length)),
+	);
+	const dirSizes = await Promise.all(
+		sampledDirs.map((dir) =>
+			estimateFolderSize(join(path, dir.name), childBudget),
+		),
+	);
+
+	return Math.round(
+		average(fileSizes) * files.length + average(dirSizes) * dirs.length,
+	);
+}
+
+/**
+ * Measures every file of a directory, like get-folder-size, but what deleting it
+ * would free: files whose hard links are not all inside the directory stay on disk
+ * (e.g. a pnpm store), and other filesystems mounted inside it are not entered.
+ * @param path Absolute path of the directory (or file)
+ * @returns The size in bytes
+ */
+export async function measureFolderSize(path: string): Promise<number> {
+	const rootDevice = await lstat(path, { bigint: true }).then(
+		(stats) => stats.dev,
+		() => null,
+	);
+	const otherDevices = new Set<string>();
+	// Links found so far for each inode with several links
+	const linkedFiles = new Map<
+		bigint,
+		{ size: bigint; nlink: bigint; found: bigint }
+	>();
+
+	const fs = {
+		lstat: async (itemPath: string, options: { bigint: true }) => {
+			const stats = await lstat(itemPath, options);
+			if (rootDevice !== null && stats.dev !== rootDevice) {
+				otherDevices.add(itemPath);
+			} else if (stats.isFile() && stats.nlink > 1n) {
+				const file = linkedFiles.get(stats.ino);
+				linkedFiles.set(stats.ino, {
+					size: stats.size,
+					nlink: stats.nlink,
+					found: (file?.found ?? 0n) + 1n,
+				});
+			}
+			return stats;
+		},
+		readdir: async (itemPath: string) =>
+			otherDevices.has(itemPath) ? [] : await readdir(itemPath),
+	};
+
+	const size = toBytes(await getFolderSize(path, { fs }));
+	const shared = [...linkedFiles.values()]
+		.filter((file) => file.found < file.nlink)
+		.reduce((sum, file) => sum + Number(file.size), 0);
+	return Math.max(0, size - shared);
+}
+
+/**
+ * Measures a target according to the size mode.
+ * @param path Absolute path of the target
+ * @param mode How to measure it
+ * @param cache Sizes of previous runs, used and updated in 'exact' mode
+ * @returns The size in bytes (0 in 'none' mode)
+ */
+export async function measureSize(
+	path: string,
+	mode: SizeMode,
+	cache?: SizeCache,
+): Promise<number> {
+	if (mode === "none") return 0;
+	if (mode === "estimate") return await estimateFolderSize(path);
+
+	const stamp = cache ? await stat(path).catch(() => null) : null;
+	const cached = stamp ? cache?.get(path, stamp) : null;
+	if (cached !== null && cached !== undefined) return cached;
+
+	const size = await measureFolderSize(path);
+	if (stamp) cache?.set(path, stamp, size);
+	return size;
+}
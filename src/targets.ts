@@ -0,0 +1,65 @@
+import * as v from "valibot";
+
+// What remains of a pattern once its `!` and leading `/` are stripped
+const patternBody = (pattern: string): string =>
+	pattern.replace(/^!/, "").replace(/^\/+/, "").replace(/\/+$/, "");
+
+const patternSchema = v.pipe(
+	v.string(),
+	v.check(
+		(pattern) => patternBody(pattern).length > 0,
+		'Invalid target. Use a glob such as "dist", "/build" or "!packages/legacy/dist"',
+	),
+);
+
+export const targetSchema = v.union([
+	patternSchema,
+	v.object({
+		pattern: patternSchema,
+		type: v.optional(v.picklist(["file", "dir"])),
+		maxDepth: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+	}),
+]);
+
+/**
+ * A target to clean: a glob pattern, or an object restricting it.
+ * - `dist` matches at any depth; `/dist` only at the root of the searched directory.
+ * - `!pattern` keeps matching paths (and what they contain), whatever their position in the list.
+ * - `{ pattern, type }` only matches files or directories.
+ * - `{ pattern, maxDepth }` only matches up to that many levels deep (1 = the root itself).
+ */
+export type Target = v.InferOutput<typeof targetSchema>;
+
+/**
+ * A target broken down into what discovery needs.
+ */
+export interface TargetRule {
+	/** Glob relative to the searched directory. */
+	glob: string;
+	/** True for `!pattern` targets, which exclude paths instead of finding them. */
+	negate: boolean;
+	/** Restricts matches to files or directories. */
+	type?: "file" | "dir";
+	/** Deepest level a match may be at, 1 being the searched directory itself. */
+	maxDepth?: number;
+}
+
+/**
+ * Parses a target of the config or the CLI.
+ * @param target The target
+ * @returns The glob to search and its restrictions
+ */
+export function parseTarget(target: Target): TargetRule {
+	const { pattern, type, maxDepth } =
+		typeof target === "string" ? { pattern: target } : target;
+	const negate = pattern.startsWith("!");
+	const anchored = pattern.replace(/^!/, "").startsWith("/");
+	const body = patternBody(pattern);
+
+	return {
+		glob: anchored ? body : `**/${body}`,
+		negate,
+		type,
+		maxDepth,
+	};
+}
@@ -0,0 +1,263 @@
+import { access, mkdir, rm, writeFile } from "node:fs/promises";
+import * as os from "node:os";
+import { basename, join } from "node:path";
+import * as v from "valibot";
+import { type BackupManifest, createRunId, ManifestRun } from "./backup";
+import { listBackupRuns } from "./restore";
+import { getDataDir, getHomeDir, movePath } from "./utils";
+
+export const deleteStrategySchema = v.picklist(["rm", "trash"]);
+
+export const trashConfigSchema = v.object({
+	location: v.optional(v.picklist(["purgo", "system"])),
+});
+
+/**
+ * How targets are removed: permanently ('rm') or moved to a trash ('trash').
+ */
+export type DeleteStrategy = v.InferOutput<typeof deleteStrategySchema>;
+
+/**
+ * Trash settings as accepted in the `trash` field of the configuration.
+ */
+export type TrashConfig = v.InferOutput<typeof trashConfigSchema>;
+
+/**
+ * Where trashed targets are moved to:
+ * - 'purgo': a purgo-managed directory next to the run manifest
+ * - 'system': the freedesktop.org trash (~/.local/share/Trash), Linux only
+ */
+export type TrashLocation = NonNullable<TrashConfig["location"]>;
+
+/**
+ * Options for creating a trash run.
+ */
+export interface TrashRunOptions {
+	/** The project root the targets belong to. */
+	rootDir: string;
+	/** Directory where trash runs are stored. Defaults to `<data dir>/trash`. */
+	trashDir?: string;
+	/** Where targets are moved to. Defaults to 'purgo'. */
+	location?: TrashLocation;
+}
+
+/**
+ * Options for emptying the trash.
+ */
+export interface EmptyTrashOptions {
+	/** Only removes runs older than this many milliseconds. */
+	olderThan?: number;
+	/** Directory where trash runs are stored. */
+	trashDir?: string;
+}
+
+/**
+ * Outcome of emptying the trash.
+ */
+export interface EmptyTrashResult {
+	/** IDs of the runs that were permanently deleted. */
+	removed: string[];
+	/** Total bytes freed. */
+	freedBytes: number;
+}
+
+/**
+ * Returns the default directory where trash runs are stored.
+ */
+export function getDefaultTrashDir(): string {
+	return join(getDataDir(), "trash");
+}
+
+/**
+ * Returns the freedesktop.org home trash directory.
+ * Priority: $XDG_DATA_HOME/Trash > ~/.local/share/Trash
+ */
+export function getSystemTrashDir(): string {
+	const xdgDataHome = process.env.XDG_DATA_HOME;
+	return xdgDataHome && xdgDataHome.length > 0
+		? join(xdgDataHome, "Trash")
+		: join(getHomeDir(), ".local", "share", "Trash");
+}
+
+const formatTrashInfoDate = (date: Date): string => {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * Builds the content of a freedesktop.org `.trashinfo` file.
+ * @param originalPath Absolute path the item was removed from
+ * @param date Deletion date
+ */
+export function createTrashInfo(originalPath: string, date: Date): string {
+	const encodedPath = originalPath.split("/").map(encodeURIComponent).join("/");
+	return `[Trash Info]\nPath=${encodedPath}\nDeletionDate=${formatTrashInfoDate(date)}\n`;
+}
+
+/**
+ * An in-progress trash run: moves targets out of the project one by one.
+ */
+export class TrashRun extends ManifestRun {
+	readonly location: TrashLocation;
+
+	constructor(dir: string, manifest: BackupManifest, location: TrashLocation) {
+		super(dir, manifest);
+		this.location = location;
+	}
+
+	/**
+	 * The directory trashed targets end up in.
+	 */
+	get destination(): string {
+		return this.location === "system"
+			? join(getSystemTrashDir(), "files")
+			: this.dir;
+	}
+
+	/**
+	 * Moves a single target to the trash.
+	 * @param absolutePath Absolute path of the target
+	 * @param path Path of the target relative to the project root
+	 * @param size Size of the target in bytes
+	 */
+	async trash(absolutePath: string, path: string, size: number): Promise<void> {
+		if (this.location === "system") {
+			await this.moveToSystemTrash(absolutePath, path, size);
+			return;
+		}
+
+		const storedPath = join(this.dir, this.nextName(absolutePath));
+		await movePath(absolutePath, storedPath);
+		await this.record({ path, originalPath: absolutePath, size, storedPath });
+	}
+
+	private async moveToSystemTrash(
+		absolutePath: string,
+		path: string,
+		size: number,
+	): Promise<void> {
+		const trashDir = getSystemTrashDir();
+		const filesDir = join(trashDir, "files");
+		const infoDir = join(trashDir, "info");
+		await mkdir(filesDir, { recursive: true });
+		await mkdir(infoDir, { recursive: true });
+
+		// Per the spec, creating the .trashinfo file exclusively reserves the name
+		const info = createTrashInfo(absolutePath, new Date());
+		const name = basename(absolutePath);
+		for (let attempt = 1; ; attempt++) {
+			const candidate = attempt === 1 ? name : `${name}.${attempt}`;
+			const trashInfoPath = join(infoDir, `${candidate}.trashinfo`);
+			try {
+				await writeFile(trashInfoPath, info, { flag: "wx" });
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === "EEXIST") continue;
+				throw error;
+			}
+
+			const storedPath = join(filesDir, candidate);
+			try {
+				await movePath(absolutePath, storedPath);
+			} catch (error) {
+				await rm(trashInfoPath, { force: true });
+				throw error;
+			}
+
+			await this.record({
+				path,
+				originalPath: absolutePath,
+				size,
+				storedPath,
+				trashInfoPath,
+			});
+			return;
+		}
+	}
+}
+
+/**
+ * Creates the directory for a new trash run and writes its empty manifest.
+ * The system trash is only used on Linux; other platforms fall back to 'purgo'.
+ * @param options Trash run options
+ * @returns The trash run, ready to move targets
+ */
+export async function createTrashRun(
+	options: TrashRunOptions,
+): Promise<TrashRun> {
+	const { rootDir } = options;
+	const trashDir = options.trashDir ?? getDefaultTrashDir();
+	const location =
+		options.location === "system" && os.platform() === "linux"
+			? "system"
+			: "purgo";
+	const id = createRunId();
+	const dir = join(trashDir, id);
+
+	await mkdir(dir, { recursive: true });
+
+	const run = new TrashRun(
+		dir,
+		{
+			version: 1,
+			id,
+			format: "move",
+			rootDir,
+			createdAt: new Date().toISOString(),
+			totalSize: 0,
+			entries: [],
+		},
+		location,
+	);
+	await run.save();
+
+	return run;
+}
+
+/**
+ * Lists every trash run, newest first.
+ * @param trashDir Directory where trash runs are stored
+ */
+export async function listTrashRuns(
+	trashDir: string = getDefaultTrashDir(),
+): Promise<BackupManifest[]> {
+	return listBackupRuns(trashDir);
+}
+
+/**
+ * Permanently deletes trashed targets, optionally only those older than a given age.
+ * Only items recorded in purgo manifests are touched; the rest of the
+ * system trash is left alone.
+ * @param options Which runs to remove
+ * @returns The removed run IDs and freed bytes
+ */
+export async function emptyTrash(
+	options: EmptyTrashOptions = {},
+): Promise<EmptyTrashResult> {
+	const { olderThan = 0, trashDir = getDefaultTrashDir() } = options;
+	const cutoff = Date.now() - olderThan;
+	const result: EmptyTrashResult = { removed: [], freedBytes: 0 };
+
+	for (const run of await listTrashRuns(trashDir)) {
+		if (new Date(run.createdAt).getTime() > cutoff) continue;
+
+		for (const entry of run.entries) {
+			// Entries restored or removed by hand free nothing
+			const stored = await access(entry.storedPath).then(
+				() => true,
+				() => false,
+			);
+			if (stored) {
+				await rm(entry.storedPath, { recursive: true, force: true });
+				result.freedBytes += entry.size;
+			}
+			if (entry.trashInfoPath) {
+				await rm(entry.trashInfoPath, { force: true });
+			}
+		}
+		await rm(join(trashDir, run.id), { recursive: true, force: true });
+
+		result.removed.push(run.id);
+	}
+
+	return result;
+}
@@ -2,19 +2,44 @@ import boxen from "boxen";
 import chalk from "chalk";
 import ora, { type Ora } from "ora";
 import prettyBytes from "pretty-bytes";
+import prompts from "prompts";
 import * as v from "valibot";
-import { type PackageManager, toBytes } from "./utils";
+import type { Reporter, SelectableTarget, TargetSelection } from "./reporter";
+import { type SizeMode, sizeModeSchema } from "./sizes";
+import { formatAge, type PackageManager, toBytes } from "./utils";
 
 export const targetWithSizeSchema = v.object({
 	path: v.string(),
 	size: v.unknown(),
+	lastActivity: v.optional(v.date()),
+	workspace: v.optional(v.string()),
+	dirty: v.optional(v.boolean()),
+	sizeMode: v.optional(sizeModeSchema),
 });
 
-const errorItemSchema = v.object({
+export const skippedTargetSchema = v.object({
+	path: v.string(),
+	reason: v.string(),
+});
+
+export const errorItemSchema = v.object({
 	path: v.string(),
 	message: v.string(),
 });
 
+export const itemResultSchema = v.object({
+	path: v.string(),
+	size: v.pipe(v.number(), v.minValue(0)),
+	status: v.picklist(["deleted", "failed"]),
+	error: v.optional(v.string()),
+});
+
+export const reinstallResultSchema = v.object({
+	packageManager: v.optional(v.string()),
+	status: v.picklist(["success", "failed", "skipped"]),
+	message: v.optional(v.string()),
+});
+
 export const cleanSummarySchema = v.object({
 	deletedCount: v.pipe(v.number(), v.integer(), v.minValue(0)),
 	totalSize: v.pipe(v.number(), v.minValue(0)),
@@ -22,12 +47,15 @@ export const cleanSummarySchema = v.object({
 	errors: v.optional(v.array(errorItemSchema)),
 	elapsedTime: v.optional(v.number()),
 	speed: v.optional(v.number()),
+	sizeMode: v.optional(sizeModeSchema),
 });
 
 export const progressOptionsSchema = v.object({
 	current: v.pipe(v.number(), v.integer(), v.minValue(0)),
 	total: v.pipe(v.number(), v.integer(), v.minValue(1)),
 	itemName: v.optional(v.string()),
+	bytesDone: v.optional(v.pipe(v.number(), v.minValue(0))),
+	totalBytes: v.optional(v.pipe(v.number(), v.minValue(0))),
 });
 
 /**
@@ -35,6 +63,16 @@ export const progressOptionsSchema = v.object({
  */
 export type TargetWithSize = v.InferOutput<typeof targetWithSizeSchema>;
 
+/**
+ * Outcome of reinstalling dependencies after a cleanup.
+ */
+export type ReinstallResult = v.InferOutput<typeof reinstallResultSchema>;
+
+/**
+ * A target left out of the cleanup by a filter, with the reason why.
+ */
+export type SkippedTarget = v.InferOutput<typeof skippedTargetSchema>;
+
 /**
  * Summary information about a cleanup operation.
  */
@@ -50,13 +88,137 @@ export type ProgressOptions = v.InferOutput<typeof progressOptionsSchema>;
  */
 export type ErrorItem = v.InferOutput<typeof errorItemSchema>;
 
+/**
+ * Outcome of removing a single target.
+ */
+export type ItemResult = v.InferOutput<typeof itemResultSchema>;
+
+const formatEta = (seconds: number): string => {
+	const rounded = Math.ceil(seconds);
+	if (rounded < 60) return `${rounded}s`;
+	if (rounded < 3600) return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+	return `${Math.floor(rounded / 3600)}h ${Math.floor((rounded % 3600) / 60)}m`;
+};
+
+/**
+ * Formats a size for display, marking estimates and sizes that were not measured.
+ * @param bytes Size in bytes
+ * @param sizeMode How the size was obtained
+ */
+export function formatSize(bytes: number, sizeMode?: SizeMode): string {
+	if (sizeMode === "none") return "size unknown";
+	return sizeMode === "estimate"
+		? `~${prettyBytes(bytes)}`
+		: prettyBytes(bytes);
+}
+
+/**
+ * Asks a yes/no question. Without a terminal to answer on, the question is
+ * declined instead of waiting forever.
+ * @param message The question
+ * @param initial The answer Enter gives
+ * @param stdout Stream the prompt is rendered to
+ */
+export async function promptConfirmation(
+	message: string,
+	initial: boolean,
+	stdout: NodeJS.WriteStream = process.stdout,
+): Promise<boolean> {
+	if (!process.stdin.isTTY) return false;
+	const response = await prompts({
+		type: "confirm",
+		name: "confirm",
+		message,
+		initial,
+		stdout,
+	});
+	return Boolean(response.confirm);
+}
+
+/**
+ * Shows a multiselect of targets, all ticked, then asks whether the unticked
+ * ones should be remembered in the ignore list.
+ * @param targets Targets to offer, in display order
+ * @param stdout Stream the prompts are rendered to
+ */
+export async function promptTargetSelection(
+	targets: SelectableTarget[],
+	stdout: NodeJS.WriteStream = process.stdout,
+): Promise<TargetSelection> {
+	const { selected = [] } = await prompts({
+		type: "multiselect",
+		name: "selected",
+		message: "Select the targets to delete",
+		hint: "- Space to toggle, A to toggle all, Enter to confirm",
+		instructions: false,
+		choices: targets.map((target) => ({
+			title: target.path,
+			description: [
+				formatSize(target.size, target.sizeMode),
+				target.lastActivity ? `touched ${formatAge(target.lastActivity)}` : "",
+				target.dirty ? "⚠ uncommitted changes" : "",
+			]
+				.filter(Boolean)
+				.join(", "),
+			value: target.path,
+			selected: true,
+		})),
+		stdout,
+	});
+
+	const unselectedCount = targets.length - (selected as string[]).length;
+	if (selected.length === 0 || unselectedCount === 0) {
+		return { selected, remember: false };
+	}
+
+	const { remember = false } = await prompts({
+		type: "confirm",
+		name: "remember",
+		message: `Add the ${unselectedCount} unselected paths to the project's ignore list?`,
+		initial: false,
+		stdout,
+	});
+
+	return { selected, remember: Boolean(remember) };
+}
+
+/**
+ * Lays out rows as a plain-text table.
+ * The first column is left-aligned and the others right-aligned, as they hold figures.
+ * @param headers Column titles
+ * @param rows Cell values, one array per row
+ * @returns The table, one line per row below a header and a separator
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+	const widths = headers.map((header, index) =>
+		Math.max(header.length, ...rows.map((row) => (row[index] ?? "").length)),
+	);
+	const formatRow = (cells: string[]) =>
+		widths
+			.map((width, index) => {
+				const cell = cells[index] ?? "";
+				return index === 0 ? cell.padEnd(width) : cell.padStart(width);
+			})
+			.join("  ")
+			.trimEnd();
+
+	return [
+		formatRow(headers),
+		widths.map((width) => "─".repeat(width)).join("  "),
+		...rows.map(formatRow),
+	].join("\n");
+}
+
 /**
  * User interface handler for purgo-cli cleanup operations.
  * Manages spinners, progress bars, and formatted output.
+ * This is the default `Reporter`.
  */
-export class CleanUI {
+export class CleanUI implements Reporter {
 	private spinner?: Ora;
 	private progressSpinner?: Ora;
+	private progressStartedAt = 0;
+	private taskSpinner?: Ora;
 	private verbosity: "verbose" | "normal" | "quiet";
 
 	constructor(verbosity: "verbose" | "normal" | "quiet" = "normal") {
@@ -94,6 +256,16 @@ export class CleanUI {
 		console.log(chalk.yellow("⚡ Force mode enabled - skipping confirmation"));
 	}
 
+	showBackupLocation(dir: string): void {
+		if (!this.shouldShow("normal")) return;
+		console.log(chalk.cyan(`📦 Backing up targets to ${dir}`));
+	}
+
+	showTrashLocation(dir: string): void {
+		if (!this.shouldShow("normal")) return;
+		console.log(chalk.cyan(`🗑️  Moving targets to trash: ${dir}`));
+	}
+
 	showRetrying(path: string, attempt: number, maxRetries: number): void {
 		if (!this.shouldShow("verbose")) return;
 		console.log(
@@ -101,6 +273,30 @@ export class CleanUI {
 		);
 	}
 
+	showItemResult(result: ItemResult): void {
+		if (!this.shouldShow("verbose")) return;
+		if (result.status === "deleted") {
+			console.log(chalk.green(`✓ ${result.path}`));
+		} else {
+			console.log(chalk.red(`✗ ${result.path}: ${result.error ?? "failed"}`));
+		}
+	}
+
+	showSkipped(skipped: SkippedTarget[]): void {
+		if (skipped.length === 0 || !this.shouldShow("normal")) return;
+		if (this.shouldShow("verbose")) {
+			for (const item of skipped) {
+				console.log(chalk.gray(`⊘ ${item.path}: ${item.reason}`));
+			}
+			return;
+		}
+		console.log(
+			chalk.gray(
+				`⊘ ${skipped.length} targets skipped (use --verbose to see why)`,
+			),
+		);
+	}
+
 	showNothingToClean(): void {
 		this.spinner?.succeed(
 			chalk.green("No targets found. The project is already clean!"),
@@ -109,16 +305,40 @@ export class CleanUI {
 
 	showTargets(targets: TargetWithSize[]): void {
 		const totalSize = targets.reduce((acc, t) => acc + toBytes(t.size), 0);
+		// Every target of a run is measured the same way
+		const sizeMode = targets[0]?.sizeMode;
 
 		console.log(chalk.yellow("🔍 Targets found:"));
+		const groups = new Map<string | undefined, TargetWithSize[]>();
 		for (const target of targets) {
-			console.log(
-				`  - ${target.path} ${chalk.gray(`(${prettyBytes(toBytes(target.size))})`)}`,
+			groups.set(target.workspace, [
+				...(groups.get(target.workspace) ?? []),
+				target,
+			]);
+		}
+
+		if (groups.size === 1 && groups.has(undefined)) {
+			for (const target of targets) {
+				console.log(`  - ${this.formatTarget(target)}`);
+			}
+		} else {
+			// The workspace root first, then packages by name
+			const entries = [...groups].sort(([a], [b]) =>
+				a === undefined ? -1 : b === undefined ? 1 : a.localeCompare(b),
 			);
+			for (const [workspace, group] of entries) {
+				const groupSize = group.reduce((acc, t) => acc + toBytes(t.size), 0);
+				console.log(
+					`  ${chalk.bold(workspace ?? "(root)")} ${chalk.gray(formatSize(groupSize, sizeMode))}`,
+				);
+				for (const target of group) {
+					console.log(`    - ${this.formatTarget(target)}`);
+				}
+			}
 		}
 		console.log(
 			chalk.bold(
-				`\nTotal space to be freed: ${chalk.green(prettyBytes(totalSize))}`,
+				`\nTotal space to be freed: ${chalk.green(formatSize(totalSize, sizeMode))}`,
 			),
 		);
 	}
@@ -138,20 +358,34 @@ export class CleanUI {
 		);
 	}
 
-	showCancelled(): void {
-		console.log(chalk.red("Operation cancelled."));
+	async confirm(message: string, initial = true): Promise<boolean> {
+		return promptConfirmation(message, initial);
 	}
 
-	startCleaning(): Ora {
-		return ora(chalk.cyan("Cleaning artifacts...")).start();
+	async selectTargets(targets: SelectableTarget[]): Promise<TargetSelection> {
+		return promptTargetSelection(targets);
 	}
 
-	showCleanResult(spinner: Ora, errorCount: number): void {
-		if (errorCount > 0) {
-			spinner.fail(chalk.red(`Cleanup completed with ${errorCount} errors.`));
-		} else {
-			spinner.succeed(chalk.green("Cleanup completed successfully!"));
-		}
+	showIgnoreListUpdated(filepath: string, patterns: string[]): void {
+		if (!this.shouldShow("normal")) return;
+		console.log(
+			chalk.cyan(
+				`📝 Added ${patterns.length} paths to the ignore list in ${filepath}`,
+			),
+		);
+	}
+
+	showIgnoreListError(error: unknown, patterns: string[]): void {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(
+			chalk.yellow(
+				`⚠ ${message}. Add these paths to the 'ignore' list by hand:\n${patterns.map((pattern) => `  - ${pattern}`).join("\n")}`,
+			),
+		);
+	}
+
+	showCancelled(): void {
+		console.log(chalk.red("Operation cancelled."));
 	}
 
 	showSummary(summary: CleanSummary): void {
@@ -161,7 +395,7 @@ export class CleanUI {
 			chalk.bold(chalk.green("✨ Cleanup Summary ✨")),
 			"",
 			`${chalk.white("Items removed:")} ${chalk.bold(chalk.green(summary.deletedCount))}`,
-			`${chalk.white("Space freed:")} ${chalk.bold(chalk.green(prettyBytes(summary.totalSize)))}`,
+			`${chalk.white("Space freed:")} ${chalk.bold(chalk.green(formatSize(summary.totalSize, summary.sizeMode)))}`,
 			`${chalk.white("Errors:")} ${chalk.bold(chalk.red(summary.errorCount))}`,
 		];
 
@@ -213,26 +447,26 @@ export class CleanUI {
 		}
 	}
 
-	startReinstall(packageManager: PackageManager): Ora {
-		return ora(chalk.cyan(`Running "${packageManager} install"...`)).start();
+	startReinstall(packageManager: PackageManager): void {
+		this.taskSpinner = ora(
+			chalk.cyan(`Running "${packageManager} install"...`),
+		).start();
 	}
 
-	showReinstallSuccess(spinner: Ora, packageManager: string): void {
-		spinner.succeed(
+	showReinstallSuccess(packageManager: string): void {
+		this.taskSpinner?.succeed(
 			chalk.green(
 				`Dependencies reinstalled successfully with ${packageManager}!`,
 			),
 		);
+		this.taskSpinner = undefined;
 	}
 
-	showReinstallError(
-		spinner: Ora,
-		error: unknown,
-		packageManager: string,
-	): void {
-		spinner.fail(
+	showReinstallError(error: unknown, packageManager: string): void {
+		this.taskSpinner?.fail(
 			chalk.red(`Failed to reinstall dependencies with ${packageManager}.`),
 		);
+		this.taskSpinner = undefined;
 		console.error(chalk.red(error));
 	}
 
@@ -248,6 +482,7 @@ export class CleanUI {
 	}
 
 	startProgress(total: number, operation: string = "Processing"): void {
+		this.progressStartedAt = Date.now();
 		this.progressSpinner = ora({
 			text: chalk.cyan(`${operation} 0/${total}`),
 			spinner: "dots",
@@ -257,13 +492,39 @@ export class CleanUI {
 	updateProgress(options: ProgressOptions): void {
 		if (!this.progressSpinner) return;
 
-		const { current, total, itemName } = options;
-		const percentage = Math.round((current / total) * 100);
+		const { current, total, itemName, bytesDone = 0, totalBytes = 0 } = options;
+		// Targets differ wildly in size, so bytes tell the remaining work better than counts
+		const byBytes = totalBytes > 0;
+		const percentage = Math.round(
+			(byBytes ? bytesDone / totalBytes : current / total) * 100,
+		);
 		const bar = this.createProgressBar(percentage);
 
+		const details = [`${percentage}%`];
+		if (byBytes) {
+			details.push(`${prettyBytes(bytesDone)}/${prettyBytes(totalBytes)}`);
+			const elapsedSeconds = (Date.now() - this.progressStartedAt) / 1000;
+			const speed = elapsedSeconds > 0 ? bytesDone / elapsedSeconds : 0;
+			if (speed > 0) {
+				details.push(`${prettyBytes(speed)}/s`);
+				if (bytesDone < totalBytes) {
+					details.push(`ETA ${formatEta((totalBytes - bytesDone) / speed)}`);
+				}
+			}
+		}
+
 		const itemText = itemName ? ` - ${itemName}` : "";
 		this.progressSpinner.text = chalk.cyan(
-			`${bar} ${percentage}% (${current}/${total})${itemText}`,
+			`${bar} ${details.join(" · ")} (${current}/${total})${itemText}`,
+		);
+	}
+
+	showBackgroundRemoval(count: number): void {
+		if (!this.shouldShow("normal")) return;
+		console.log(
+			chalk.gray(
+				`⏳ ${count} targets were moved aside and are being removed in the background.`,
+			),
 		);
 	}
 
@@ -281,6 +542,29 @@ export class CleanUI {
 		this.progressSpinner = undefined;
 	}
 
+	/**
+	 * Called once when the cleanup is over, whatever its outcome.
+	 * The terminal UI has already printed everything by then.
+	 */
+	// The CLI prints the error itself, once the spinners are out of the way
+	showError(_error: unknown): void {
+		this.spinner?.stop();
+		this.progressSpinner?.stop();
+	}
+
+	finish(): void {}
+
+	private formatTarget(target: TargetWithSize): string {
+		const details = [formatSize(toBytes(target.size), target.sizeMode)];
+		if (target.lastActivity) {
+			details.push(`touched ${formatAge(target.lastActivity)}`);
+		}
+		const line = `${target.path} ${chalk.gray(`(${details.join(", ")})`)}`;
+		return target.dirty
+			? `${line} ${chalk.yellow("⚠ uncommitted changes")}`
+			: line;
+	}
+
 	private createProgressBar(percentage: number, width: number = 20): string {
 		const filled = Math.round((percentage / 100) * width);
 		const empty = width - filled;
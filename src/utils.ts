@@ -1,4 +1,6 @@
 import { existsSync } from "node:fs";
+import { cp, rename, rm } from "node:fs/promises";
+import * as os from "node:os";
 import { join } from "node:path";
 import * as v from "valibot";
 
@@ -176,3 +178,267 @@ export function shouldProtectPath(
 	}
 	return false;
 }
+
+/**
+ * Returns the home directory of the current user.
+ * HOME/USERPROFILE take precedence so tests and sandboxes can redirect it.
+ */
+export function getHomeDir(): string {
+	return (
+		process.env.HOME ??
+		process.env.USERPROFILE ??
+		(typeof os.homedir === "function" ? os.homedir() : "")
+	);
+}
+
+/**
+ * Returns the path of the global configuration file.
+ * Priority: explicit path > PURGO_GLOBAL_CONFIG > ~/.config/purgo/config.json
+ * @param configPath Explicit path, e.g. from `--config`
+ */
+export function getGlobalConfigPath(configPath?: string): string {
+	if (configPath) return configPath;
+
+	const fromEnv = process.env.PURGO_GLOBAL_CONFIG;
+	if (fromEnv) return fromEnv;
+
+	const home = getHomeDir();
+	return home
+		? join(home, ".config", "purgo", "config.json")
+		: join(process.cwd(), ".purgo", "config.json");
+}
+
+/**
+ * Returns the directory where purgo-cli stores persistent data such as backups.
+ * Priority: PURGO_DATA_DIR > $XDG_DATA_HOME/purgo > ~/.local/share/purgo
+ */
+export function getDataDir(): string {
+	const fromEnv = process.env.PURGO_DATA_DIR;
+	if (fromEnv && fromEnv.length > 0) return fromEnv;
+
+	const xdgDataHome = process.env.XDG_DATA_HOME;
+	if (xdgDataHome && xdgDataHome.length > 0) return join(xdgDataHome, "purgo");
+
+	const home = getHomeDir();
+	return home
+		? join(home, ".local", "share", "purgo")
+		: join(process.cwd(), ".purgo");
+}
+
+/**
+ * Returns the directory where purgo-cli keeps data it can rebuild, such as target sizes.
+ * Priority: PURGO_CACHE_DIR > $XDG_CACHE_HOME/purgo > ~/.cache/purgo
+ */
+export function getCacheDir(): string {
+	const fromEnv = process.env.PURGO_CACHE_DIR;
+	if (fromEnv && fromEnv.length > 0) return fromEnv;
+
+	const xdgCacheHome = process.env.XDG_CACHE_HOME;
+	if (xdgCacheHome && xdgCacheHome.length > 0) {
+		return join(xdgCacheHome, "purgo");
+	}
+
+	const home = getHomeDir();
+	return home ? join(home, ".cache", "purgo") : join(process.cwd(), ".purgo");
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: DAY_MS,
+	w: 7 * DAY_MS,
+};
+
+/**
+ * Parses a human-readable duration into milliseconds.
+ * Supports ms, s, m, h, d and w units (e.g. "90m", "7d", "2w").
+ * A bare number is interpreted as days.
+ * @param value The duration to parse
+ * @returns The duration in milliseconds
+ * @throws Error if the duration cannot be parsed
+ */
+export function parseDuration(value: string | number): number {
+	if (typeof value === "number") {
+		if (!Number.isFinite(value) || value < 0) {
+			throw new Error(`Invalid duration: ${value}`);
+		}
+		return value * DAY_MS;
+	}
+
+	const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?\s*$/i.exec(value);
+	if (!match) {
+		throw new Error(
+			`Invalid duration: "${value}". Use a number followed by ms, s, m, h, d or w (e.g. "7d").`,
+		);
+	}
+
+	const amount = Number(match[1]);
+	const unit = (match[2] ?? "d").toLowerCase();
+	return amount * (DURATION_UNITS[unit] as number);
+}
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	k: 1e3,
+	kb: 1e3,
+	m: 1e6,
+	mb: 1e6,
+	g: 1e9,
+	gb: 1e9,
+	t: 1e12,
+	tb: 1e12,
+	kib: 1024,
+	mib: 1024 ** 2,
+	gib: 1024 ** 3,
+	tib: 1024 ** 4,
+};
+
+/**
+ * Parses a human-readable size into bytes.
+ * Supports B, KB, MB, GB and TB (powers of 1000, as displayed by purgo)
+ * and KiB, MiB, GiB and TiB (powers of 1024), case-insensitive.
+ * A bare number is interpreted as bytes.
+ * @param value The size to parse (e.g. "50MB", "1.5 GB")
+ * @returns The size in bytes
+ * @throws Error if the size cannot be parsed
+ */
+export function parseSize(value: string | number): number {
+	if (typeof value === "number") {
+		if (!Number.isFinite(value) || value < 0) {
+			throw new Error(`Invalid size: ${value}`);
+		}
+		return value;
+	}
+
+	const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]+)?\s*$/i.exec(value);
+	const unit = (match?.[2] ?? "b").toLowerCase();
+	const multiplier = SIZE_UNITS[unit];
+	if (!match || multiplier === undefined) {
+		throw new Error(
+			`Invalid size: "${value}". Use a number followed by B, KB, MB, GB or TB (e.g. "50MB").`,
+		);
+	}
+
+	return Math.round(Number(match[1]) * multiplier);
+}
+
+/**
+ * Formats the time elapsed since a date in a compact, human-readable way
+ * (e.g. "just now", "5m ago", "3d ago", "2mo ago").
+ * @param date The past date
+ * @param now Reference date, defaults to the current time
+ */
+export function formatAge(date: Date, now: Date = new Date()): string {
+	const elapsed = Math.max(0, now.getTime() - date.getTime());
+	if (elapsed < 60 * 1000) return "just now";
+	if (elapsed < 60 * 60 * 1000) return `${Math.floor(elapsed / 60_000)}m ago`;
+	if (elapsed < DAY_MS) return `${Math.floor(elapsed / 3_600_000)}h ago`;
+	if (elapsed < 30 * DAY_MS) return `${Math.floor(elapsed / DAY_MS)}d ago`;
+	if (elapsed < 365 * DAY_MS) {
+		return `${Math.floor(elapsed / (30 * DAY_MS))}mo ago`;
+	}
+	return `${Math.floor(elapsed / (365 * DAY_MS))}y ago`;
+}
+
+const escapeRegExp = (value: string): string =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths.
+ * Supports `*`, `?`, `**` (any number of directories, including none),
+ * character classes (`[a-z]`, `[!a-z]`) and backslash escapes.
+ * @param pattern The glob pattern, with forward slashes
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern.charAt(i);
+		if (char === "*" && pattern.charAt(i + 1) === "*") {
+			const slashFollows = pattern.charAt(i + 2) === "/";
+			source += slashFollows ? "(?:.*/)?" : ".*";
+			i += slashFollows ? 2 : 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[" && pattern.indexOf("]", i + 2) !== -1) {
+			const end = pattern.indexOf("]", i + 2);
+			const range = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+			source += range.startsWith("!") ? `[^${range.slice(1)}]` : `[${range}]`;
+			i = end;
+		} else if (char === "\\" && i + 1 < pattern.length) {
+			source += escapeRegExp(pattern.charAt(i + 1));
+			i++;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Moves a file or directory, copying it when source and destination
+ * live on different filesystems.
+ * @param source Path to move
+ * @param destination New path
+ */
+export async function movePath(
+	source: string,
+	destination: string,
+): Promise<void> {
+	try {
+		await rename(source, destination);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+		await cp(source, destination, { recursive: true, verbatimSymlinks: true });
+		await rm(source, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Returns the default number of targets measured or removed at once.
+ * Both are I/O-bound, so at least two run in parallel even on a single core;
+ * the cap keeps the number of open file handles reasonable.
+ */
+export function getDefaultConcurrency(): number {
+	const cpus =
+		typeof os.availableParallelism === "function"
+			? os.availableParallelism()
+			: os.cpus().length;
+	return Math.min(16, Math.max(2, cpus));
+}
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at once.
+ * @param items Items to process
+ * @param concurrency Maximum number of calls in flight, at least 1
+ * @param fn Called for every item
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index] as T, index);
+		}
+	};
+
+	await Promise.all(
+		Array.from(
+			{ length: Math.max(1, Math.min(concurrency, items.length)) },
+			worker,
+		),
+	);
+	return results;
+}
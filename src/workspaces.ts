@@ -0,0 +1,336 @@
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { glob } from "glob";
+import * as v from "valibot";
+import type { DiscoveryScope } from "./discovery";
+import { targetSchema } from "./targets";
+import { globToRegExp } from "./utils";
+
+export const workspaceOverrideSchema = v.object({
+	targets: v.optional(v.array(targetSchema)),
+	ignore: v.optional(v.array(v.string())),
+});
+
+/**
+ * Settings that replace the project's ones for matching workspace packages.
+ * `ignore` patterns are relative to the package directory.
+ */
+export type WorkspaceOverride = v.InferOutput<typeof workspaceOverrideSchema>;
+
+/**
+ * A package of a pnpm, npm, yarn or bun workspace.
+ */
+export interface WorkspacePackage {
+	/** Name from the package's package.json, or its directory when unnamed. */
+	name: string;
+	/** Directory relative to the workspace root, with forward slashes. */
+	dir: string;
+	/** Names of the other workspace packages it depends on. */
+	dependencies: string[];
+}
+
+/**
+ * Selectors choosing which workspace packages to clean.
+ */
+export interface WorkspaceSelection {
+	/** Package names or directories, globs allowed. A package matching any of them is kept. */
+	workspace?: string[];
+	/**
+	 * pnpm-style filters: `name` or `./dir` selects packages, `name...` adds their
+	 * workspace dependencies, `...name` their dependents and `!name` excludes them.
+	 */
+	filter?: string[];
+}
+
+const DEPENDENCY_FIELDS = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+] as const;
+
+const readJson = async (
+	filepath: string,
+): Promise<Record<string, unknown> | null> => {
+	try {
+		return JSON.parse(await readFile(filepath, "utf-8"));
+	} catch {
+		return null;
+	}
+};
+
+const unquote = (value: string): string =>
+	value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+/**
+ * Reads the `packages` list of a pnpm-workspace.yaml.
+ * Only the block and flow sequence forms used by pnpm are supported.
+ */
+const parsePnpmWorkspace = (content: string): string[] => {
+	const patterns: string[] = [];
+	let inPackages = false;
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.replace(/(^|\s)#.*$/, "");
+		if (!line.trim()) continue;
+
+		const key = line.match(/^packages\s*:\s*(.*)$/);
+		if (key) {
+			const inline = key[1]?.trim() ?? "";
+			if (inline.startsWith("[")) {
+				return inline
+					.replace(/^\[|\]$/g, "")
+					.split(",")
+					.map(unquote)
+					.filter(Boolean);
+			}
+			inPackages = true;
+			continue;
+		}
+
+		if (!inPackages) continue;
+		// Next top-level key
+		if (/^\S/.test(line)) break;
+
+		const item = line.match(/^\s*-\s*(.+)$/);
+		if (item?.[1]) patterns.push(unquote(item[1]));
+	}
+
+	return patterns;
+};
+
+/**
+ * Reads the workspace globs of a project, from pnpm-workspace.yaml or the
+ * `workspaces` field of package.json (array or yarn's `{ packages }` form).
+ * @param rootDir The workspace root
+ * @returns The package globs, empty when the project is not a workspace
+ */
+export async function getWorkspacePatterns(rootDir: string): Promise<string[]> {
+	try {
+		const content = await readFile(
+			join(rootDir, "pnpm-workspace.yaml"),
+			"utf-8",
+		);
+		const patterns = parsePnpmWorkspace(content);
+		if (patterns.length > 0) return patterns;
+	} catch {
+		// Not a pnpm workspace
+	}
+
+	const pkg = await readJson(join(rootDir, "package.json"));
+	const workspaces = pkg?.workspaces;
+	const patterns = Array.isArray(workspaces)
+		? workspaces
+		: (workspaces as { packages?: unknown } | undefined)?.packages;
+
+	return Array.isArray(patterns)
+		? patterns.filter((item): item is string => typeof item === "string")
+		: [];
+}
+
+/**
+ * Lists the packages of a workspace with their inter-package dependencies.
+ * @param rootDir The workspace root
+ * @returns The packages sorted by directory, empty when the project is not a workspace
+ */
+export async function findWorkspacePackages(
+	rootDir: string,
+): Promise<WorkspacePackage[]> {
+	const patterns = await getWorkspacePatterns(rootDir);
+	const includes = patterns.filter((pattern) => !pattern.startsWith("!"));
+	if (includes.length === 0) return [];
+
+	const manifests = await glob(
+		includes.map((pattern) => `${pattern.replace(/\/+$/, "")}/package.json`),
+		{
+			cwd: rootDir,
+			ignore: [
+				"**/node_modules/**",
+				...patterns
+					.filter((pattern) => pattern.startsWith("!"))
+					.map((pattern) => pattern.slice(1).replace(/\/+$/, "")),
+			],
+		},
+	);
+
+	const packages = await Promise.all(
+		manifests.map(async (manifest) => {
+			const dir = dirname(manifest).replace(/\\/g, "/");
+			const pkg = (await readJson(join(rootDir, manifest))) ?? {};
+			const dependencies = DEPENDENCY_FIELDS.flatMap((field) =>
+				Object.keys((pkg[field] as Record<string, string> | undefined) ?? {}),
+			);
+			return {
+				name: typeof pkg.name === "string" ? pkg.name : dir,
+				dir,
+				dependencies,
+			};
+		}),
+	);
+
+	const names = new Set(packages.map((pkg) => pkg.name));
+	return packages
+		.filter((pkg) => pkg.dir !== ".")
+		.map((pkg) => ({
+			...pkg,
+			dependencies: [...new Set(pkg.dependencies)].filter((name) =>
+				names.has(name),
+			),
+		}))
+		.sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Tells whether a selector designates a package, by name or directory.
+ * A selector starting with `./` only matches directories.
+ * @param pkg The package
+ * @param selector A name or directory, globs allowed
+ */
+export function matchesWorkspace(
+	pkg: WorkspacePackage,
+	selector: string,
+): boolean {
+	if (selector.startsWith("./")) {
+		return globToRegExp(selector.slice(2).replace(/\/+$/, "")).test(pkg.dir);
+	}
+	const regExp = globToRegExp(selector.replace(/\/+$/, ""));
+	return regExp.test(pkg.name) || regExp.test(pkg.dir);
+}
+
+const collectRelated = (
+	packages: WorkspacePackage[],
+	start: WorkspacePackage[],
+	getRelated: (pkg: WorkspacePackage) => WorkspacePackage[],
+): WorkspacePackage[] => {
+	const found = new Set(start);
+	const queue = [...start];
+	for (let pkg = queue.shift(); pkg; pkg = queue.shift()) {
+		for (const related of getRelated(pkg)) {
+			if (found.has(related)) continue;
+			found.add(related);
+			queue.push(related);
+		}
+	}
+	return packages.filter((pkg) => found.has(pkg));
+};
+
+const applyFilters = (
+	packages: WorkspacePackage[],
+	filters: string[],
+): WorkspacePackage[] => {
+	const byName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+	const dependenciesOf = (pkg: WorkspacePackage) =>
+		pkg.dependencies
+			.map((name) => byName.get(name))
+			.filter((dep): dep is WorkspacePackage => Boolean(dep));
+	const dependentsOf = (pkg: WorkspacePackage) =>
+		packages.filter((other) => other.dependencies.includes(pkg.name));
+
+	const exclusions = filters.filter((filter) => filter.startsWith("!"));
+	const inclusions = filters.filter((filter) => !filter.startsWith("!"));
+
+	const included =
+		inclusions.length === 0
+			? packages
+			: inclusions.flatMap((filter) => {
+					const withDependents = filter.startsWith("...");
+					const withDependencies = filter.endsWith("...");
+					const selector = filter.replace(/^\.\.\.|\.\.\.$/g, "");
+					let matched = packages.filter((pkg) =>
+						matchesWorkspace(pkg, selector),
+					);
+					if (withDependencies) {
+						matched = collectRelated(packages, matched, dependenciesOf);
+					}
+					if (withDependents) {
+						matched = collectRelated(packages, matched, dependentsOf);
+					}
+					return matched;
+				});
+
+	return packages.filter(
+		(pkg) =>
+			included.includes(pkg) &&
+			!exclusions.some((filter) => matchesWorkspace(pkg, filter.slice(1))),
+	);
+};
+
+/**
+ * Keeps the packages chosen by `workspace` and `filter`; both must match when given.
+ * @param packages All packages of the workspace
+ * @param selection The selectors
+ * @returns The selected packages, in their original order
+ * @throws {Error} If selectors were given but no package matches them
+ */
+export function selectWorkspacePackages(
+	packages: WorkspacePackage[],
+	selection: WorkspaceSelection,
+): WorkspacePackage[] {
+	const { workspace = [], filter = [] } = selection;
+	let selected = packages;
+
+	if (workspace.length > 0) {
+		selected = selected.filter((pkg) =>
+			workspace.some((selector) => matchesWorkspace(pkg, selector)),
+		);
+	}
+	if (filter.length > 0) {
+		const filtered = applyFilters(packages, filter);
+		selected = selected.filter((pkg) => filtered.includes(pkg));
+	}
+
+	if (selected.length === 0) {
+		throw new Error(
+			`No workspace package matches ${[...workspace, ...filter].join(", ")}`,
+		);
+	}
+
+	return selected;
+}
+
+/**
+ * Combines the overrides whose selector matches a package, later ones winning.
+ * @param pkg The package
+ * @param overrides Overrides keyed by package name or directory, globs allowed
+ */
+export function getWorkspaceOverride(
+	pkg: WorkspacePackage,
+	overrides: Record<string, WorkspaceOverride> = {},
+): WorkspaceOverride {
+	const matching = Object.entries(overrides)
+		.filter(([selector]) => matchesWorkspace(pkg, selector))
+		.map(([, override]) => override);
+	return Object.assign({}, ...matching);
+}
+
+/**
+ * Turns the packages of a workspace into discovery scopes: the selected packages
+ * when selectors are given, otherwise the workspace root plus every package.
+ * @param rootDir The project root
+ * @param selection The selectors
+ * @param overrides Per-package settings from the `workspaces` config field
+ * @returns The scopes, or undefined when the project is not a workspace and nothing was selected
+ * @throws {Error} If selectors were given but no package matches them
+ */
+export async function getWorkspaceScopes(
+	rootDir: string,
+	selection: WorkspaceSelection,
+	overrides?: Record<string, WorkspaceOverride>,
+): Promise<DiscoveryScope[] | undefined> {
+	const packages = await findWorkspacePackages(rootDir);
+	const hasSelection =
+		(selection.workspace?.length ?? 0) > 0 ||
+		(selection.filter?.length ?? 0) > 0;
+	if (packages.length === 0 && !hasSelection) return undefined;
+
+	const selected = hasSelection
+		? selectWorkspacePackages(packages, selection)
+		: packages;
+	const scopes = selected.map((pkg) => ({
+		dir: pkg.dir,
+		name: pkg.name,
+		...getWorkspaceOverride(pkg, overrides),
+	}));
+
+	return hasSelection ? scopes : [{ dir: "." }, ...scopes];
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const mkdirMock = mock(async (_p: string, _o?: unknown) => {});
+const writeFileMock = mock(
+	async (_p: string, _data: string, _enc?: unknown) => {},
+);
+const cpMock = mock(async (_src: string, _dest: string, _o?: unknown) => {});
+const execaMock = mock(async (_cmd: string, _args: string[]) => ({
+	exitCode: 0,
+	stdout: "",
+	stderr: "",
+}));
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	mkdir: mkdirMock,
+	writeFile: writeFileMock,
+	cp: cpMock,
+}));
+mock.module("execa", () => ({ execa: execaMock }));
+
+const importBackup = async (suffix: string = String(Math.random())) =>
+	await import(`../src/backup?${suffix}`);
+
+const lastManifest = () => {
+	const calls = writeFileMock.mock.calls;
+	const last = calls[calls.length - 1];
+	return JSON.parse(String(last?.[1]));
+};
+
+beforeEach(() => {
+	mkdirMock.mockClear();
+	writeFileMock.mockClear();
+	cpMock.mockReset();
+	execaMock.mockReset();
+});
+
+describe("createRunId", () => {
+	test("is sortable by creation time and unique", async () => {
+		const { createRunId } = await importBackup("id");
+
+		const first = createRunId(new Date("2025-01-01T00:00:00.000Z"));
+		const second = createRunId(new Date("2025-01-02T00:00:00.000Z"));
+
+		expect(first.startsWith("2025-01-01T00-00-00-000Z-")).toBe(true);
+		expect([second, first].sort()).toEqual([first, second]);
+		expect(createRunId()).not.toBe(createRunId());
+	});
+});
+
+describe("createBackupRun", () => {
+	test("creates run directory and writes an empty manifest", async () => {
+		const { createBackupRun } = await importBackup("create");
+
+		const run = await createBackupRun({
+			rootDir: "/proj",
+			backupDir: "/backups",
+		});
+
+		expect(run.dir.startsWith("/backups/")).toBe(true);
+		expect(mkdirMock).toHaveBeenCalledWith(run.dir, { recursive: true });
+		const manifest = lastManifest();
+		expect(manifest.id).toBe(run.id);
+		expect(manifest.rootDir).toBe("/proj");
+		expect(manifest.format).toBe("tar");
+		expect(manifest.entries).toEqual([]);
+	});
+
+	test("uses PURGO_DATA_DIR when no backup dir is given", async () => {
+		const { createBackupRun } = await importBackup("default-dir");
+		process.env.PURGO_DATA_DIR = "/data";
+
+		const run = await createBackupRun({ rootDir: "/proj" });
+
+		delete process.env.PURGO_DATA_DIR;
+		expect(run.dir.startsWith("/data/backups/")).toBe(true);
+	});
+});
+
+describe("BackupRun.backup", () => {
+	test("archives targets with tar and records them in the manifest", async () => {
+		const { createBackupRun } = await importBackup("tar");
+
+		const run = await createBackupRun({
+			rootDir: "/proj",
+			backupDir: "/backups",
+		});
+		await run.backup("/proj/packages/a/dist", "packages/a/dist", 2048);
+
+		const call = execaMock.mock.calls[0];
+		expect(call?.[0]).toBe("tar");
+		expect(call?.[1]).toEqual([
+			"-czf",
+			`${run.dir}/0001-dist.tar.gz`,
+			"-C",
+			"/proj/packages/a",
+			"dist",
+		]);
+
+		const manifest = lastManifest();
+		expect(manifest.totalSize).toBe(2048);
+		expect(manifest.entries).toEqual([
+			{
+				path: "packages/a/dist",
+				originalPath: "/proj/packages/a/dist",
+				size: 2048,
+				storedPath: `${run.dir}/0001-dist.tar.gz`,
+			},
+		]);
+	});
+
+	test("copies targets as directory snapshots with format 'copy'", async () => {
+		const { createBackupRun } = await importBackup("copy");
+
+		const run = await createBackupRun({
+			rootDir: "/proj",
+			backupDir: "/backups",
+			format: "copy",
+		});
+		await run.backup("/proj/node_modules", "node_modules", 10);
+		await run.backup("/proj/app/node_modules", "app/node_modules", 5);
+
+		expect(execaMock).not.toHaveBeenCalled();
+		expect(cpMock.mock.calls.map((c) => c[1])).toEqual([
+			`${run.dir}/0001-node_modules`,
+			`${run.dir}/0002-node_modules`,
+		]);
+		expect(lastManifest().entries.length).toBe(2);
+		expect(lastManifest().totalSize).toBe(15);
+	});
+
+	test("rejects and leaves the manifest untouched when archiving fails", async () => {
+		const { createBackupRun } = await importBackup("fail");
+
+		const run = await createBackupRun({
+			rootDir: "/proj",
+			backupDir: "/backups",
+		});
+		execaMock.mockImplementationOnce(async () => {
+			throw new Error("tar: disk full");
+		});
+
+		await expect(run.backup("/proj/dist", "dist", 1)).rejects.toThrow(
+			"tar: disk full",
+		);
+		expect(run.entries).toEqual([]);
+	});
+});
@@ -1,12 +1,38 @@
-import { beforeEach, describe, expect, mock, test } from "bun:test";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import * as fsPromises from "node:fs/promises";
 import { toBytes } from "../src";
+import * as fastDelete from "../src/fast-delete";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+const actualFastDelete = { ...fastDelete };
+const { isTTY } = process.stdin;
 
 const rmMock = mock(async () => {});
+const mkdirMock = mock(async () => {});
+const writeFileMock = mock(async () => {});
+const cpMock = mock(async () => {});
+const renameMock = mock(async () => {});
+const statMock = mock(async (_p: string) => ({ mtime: new Date(0) }));
+const removeInBackgroundMock = mock((_paths: string[]) => {});
+const addToIgnoreListMock = mock(
+	async (_root: string, _patterns: string[]) => "/proj/.purgorc.json",
+);
 const globMock = mock(async (_patterns: string[], _opts: unknown) => {
 	return ["node_modules", "dist"];
 });
 const getFolderSizeMock = mock(async (_p: string) => 1024 * 1024); // 1 MB per target
-const promptsMock = mock(async (_q: unknown) => ({ confirm: true }));
+const promptsMock = mock(
+	async (_q: unknown): Promise<Record<string, unknown>> => ({ confirm: true }),
+);
 const execaMock = mock(
 	async (_cmd: string, _args: string[], _opts: unknown) => ({
 		stdout: "",
@@ -27,10 +53,28 @@ const chalkMock = new Proxy({}, { get: () => (v: unknown) => String(v) });
 const boxenMock = (s: string) => s;
 const prettyBytesMock = (n: number) => `${n} B`;
 
-mock.module("node:fs/promises", () => ({ rm: rmMock }));
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	stat: statMock,
+	rm: rmMock,
+	mkdir: mkdirMock,
+	writeFile: writeFileMock,
+	cp: cpMock,
+	rename: renameMock,
+}));
 mock.module("glob", () => ({ glob: globMock }));
+mock.module("../src/fast-delete", () => ({
+	...actualFastDelete,
+	removeInBackground: removeInBackgroundMock,
+}));
+mock.module("../src/ignore-list", () => ({
+	addToIgnoreList: addToIgnoreListMock,
+}));
 mock.module("prompts", () => ({ default: promptsMock }));
 mock.module("execa", () => ({ execa: execaMock }));
+// Commands other than the git status checks run before deleting
+const installCalls = () =>
+	execaMock.mock.calls.filter(([cmd]) => cmd !== "git");
 mock.module("get-folder-size", () => ({ default: getFolderSizeMock }));
 mock.module("ora", () => ({ default: oraMock }));
 mock.module("chalk", () => ({ default: chalkMock }));
@@ -43,9 +87,23 @@ const importIndex = async (suffix: string = String(Math.random())) =>
 beforeEach(() => {
 	rmMock.mockReset();
 	globMock.mockReset();
+	// Discovery is set up per test, later searches (leftover sweep) find nothing
+	globMock.mockImplementation(async () => []);
 	getFolderSizeMock.mockReset();
 	promptsMock.mockReset();
 	execaMock.mockReset();
+	mkdirMock.mockClear();
+	writeFileMock.mockClear();
+	cpMock.mockReset();
+	renameMock.mockReset();
+	addToIgnoreListMock.mockClear();
+	removeInBackgroundMock.mockClear();
+	// Confirmations are only asked on a terminal
+	process.stdin.isTTY = true;
+});
+
+afterEach(() => {
+	process.stdin.isTTY = isTTY;
 });
 
 describe("cleanProject", () => {
@@ -106,17 +164,21 @@ describe("cleanProject", () => {
 		globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
 		getFolderSizeMock.mockImplementation(async () => 1024);
 
-		await cleanProject({
+		const result = await cleanProject({
 			rootDir: process.cwd(),
 			dryRun: true,
 			reinstall: false,
 		});
 
+		expect(result.status).toBe("dry-run");
+		expect(result.targets).toHaveLength(2);
+		expect(result.deleted).toEqual([]);
+
 		expect(globMock).toHaveBeenCalled();
 		expect(getFolderSizeMock).toHaveBeenCalled();
 		expect(rmMock).toHaveBeenCalledTimes(0);
 		expect(promptsMock).toHaveBeenCalledTimes(0);
-		expect(execaMock).toHaveBeenCalledTimes(0);
+		expect(installCalls()).toHaveLength(0);
 	});
 
 	test("reinstall runs bun install after successful cleanup", async () => {
@@ -134,8 +196,7 @@ describe("cleanProject", () => {
 
 		expect(rmMock.mock.calls.length).toBe(2);
 		expect(promptsMock).toHaveBeenCalledTimes(1);
-		expect(execaMock).toHaveBeenCalled();
-		const firstCall = execaMock.mock.calls[0];
+		const firstCall = installCalls()[0];
 		expect(firstCall?.[0]).toBe("bun");
 		expect(firstCall && Array.isArray(firstCall[1])).toBe(true);
 	});
@@ -145,15 +206,17 @@ describe("cleanProject", () => {
 
 		globMock.mockImplementationOnce(async () => []);
 
-		await cleanProject({
+		const result = await cleanProject({
 			rootDir: process.cwd(),
 			dryRun: false,
 			reinstall: true,
 		});
 
+		expect(result.status).toBe("nothing-to-clean");
+
 		expect(rmMock).toHaveBeenCalledTimes(0);
 		expect(promptsMock).toHaveBeenCalledTimes(0);
-		expect(execaMock).toHaveBeenCalledTimes(0);
+		expect(installCalls()).toHaveLength(0);
 	});
 
 	test("user cancellation does not delete or reinstall", async () => {
@@ -163,14 +226,17 @@ describe("cleanProject", () => {
 		getFolderSizeMock.mockImplementation(async () => 1000);
 		promptsMock.mockImplementationOnce(async () => ({ confirm: false }));
 
-		await cleanProject({
+		const result = await cleanProject({
 			rootDir: process.cwd(),
 			dryRun: false,
 			reinstall: true,
 		});
 
+		expect(result.status).toBe("cancelled");
+		expect(result.reinstall).toBeUndefined();
+
 		expect(rmMock).toHaveBeenCalledTimes(0);
-		expect(execaMock).toHaveBeenCalledTimes(0);
+		expect(installCalls()).toHaveLength(0);
 	});
 
 	test("deduplicates paths keeping only top directories", async () => {
@@ -254,7 +320,33 @@ describe("cleanProject", () => {
 		});
 
 		expect(rmMock.mock.calls.length).toBe(2);
-		expect(execaMock).not.toHaveBeenCalled();
+		expect(installCalls()).toHaveLength(0);
+	});
+
+	test("the summary reports the space actually freed", async () => {
+		const { cleanProject, SilentReporter } = await importIndex("summary-freed");
+
+		globMock.mockImplementationOnce(async () => ["ok", "fail"]);
+		getFolderSizeMock.mockImplementation(async () => 5);
+		let call = 0;
+		rmMock.mockImplementation(async () => {
+			call++;
+			if (call === 2) throw new Error("boom");
+		});
+		const summaries: import("../src").CleanSummary[] = [];
+		class SummaryReporter extends SilentReporter {
+			showSummary(summary: import("../src").CleanSummary) {
+				summaries.push(summary);
+			}
+		}
+
+		await cleanProject({
+			rootDir: process.cwd(),
+			force: true,
+			reporter: new SummaryReporter(),
+		});
+
+		expect(summaries[0]?.totalSize).toBe(5);
 	});
 
 	test("reinstall=true does not run when there were deletion errors", async () => {
@@ -270,13 +362,14 @@ describe("cleanProject", () => {
 			if (call === 2) throw new Error("boom");
 		});
 
-		await cleanProject({
+		const result = await cleanProject({
 			rootDir: process.cwd(),
 			dryRun: false,
 			reinstall: true,
 		});
 
-		expect(execaMock).toHaveBeenCalledTimes(0);
+		expect(installCalls()).toHaveLength(0);
+		expect(result.reinstall?.status).toBe("skipped");
 	});
 
 	test("targets precedence: CLI prevails over config and default", async () => {
@@ -323,4 +416,829 @@ describe("cleanProject", () => {
 
 		await cleanProject({ rootDir: process.cwd(), dryRun: true });
 	});
+
+	test("backup archives every target before deleting it", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false, backup: { dir: "/backups" } },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("backup");
+
+		globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+
+		const order: string[] = [];
+		execaMock.mockImplementation(async (cmd: string) => {
+			order.push(cmd);
+			return { stdout: "", stderr: "", exitCode: 0 };
+		});
+		rmMock.mockImplementation(async () => {
+			order.push("rm");
+		});
+
+		await cleanProject({
+			rootDir: "/proj",
+			force: true,
+			backup: true,
+		});
+
+		expect(mkdirMock).toHaveBeenCalled();
+		expect(order.filter((o) => o === "tar").length).toBe(2);
+		expect(order.indexOf("tar")).toBeLessThan(order.indexOf("rm"));
+		expect(rmMock.mock.calls.length).toBe(2);
+	});
+
+	test("targets whose backup fails are not deleted", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("backupFail");
+
+		globMock.mockImplementationOnce(async () => ["ok", "fail"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+			if (args.includes("fail")) throw new Error("tar failed");
+			return { stdout: "", stderr: "", exitCode: 0 };
+		});
+
+		await cleanProject({
+			rootDir: "/proj",
+			force: true,
+			backup: true,
+			backupDir: "/backups",
+		});
+
+		expect(rmMock.mock.calls.length).toBe(1);
+		expect(String((rmMock.mock.calls[0] as unknown[])[0])).toBe("/proj/ok");
+	});
+
+	test("trash strategy moves targets instead of removing them", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				// The size cache would be renamed into place too
+				config: {
+					protectSelf: false,
+					deleteStrategy: "trash",
+					sizeCache: false,
+				},
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("trash");
+
+		globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+
+		await cleanProject({ rootDir: "/proj", force: true });
+
+		expect(rmMock).not.toHaveBeenCalled();
+		const moved = renameMock.mock.calls.map((c) => String((c as unknown[])[0]));
+		expect(moved.sort()).toEqual(["/proj/dist", "/proj/node_modules"]);
+	});
+
+	test("deleteStrategy option overrides config", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: {
+					protectSelf: false,
+					deleteStrategy: "trash",
+					sizeCache: false,
+				},
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("trashOverride");
+
+		globMock.mockImplementationOnce(async () => ["dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+
+		await cleanProject({ rootDir: "/proj", force: true, deleteStrategy: "rm" });
+
+		expect(renameMock).not.toHaveBeenCalled();
+		expect(rmMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("json reporter prints a single report document", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("json");
+
+		globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+		getFolderSizeMock.mockImplementation(async () => 5);
+
+		const output: string[] = [];
+		const originalLog = console.log;
+		console.log = mock((...args: unknown[]) => {
+			output.push(args.join(" "));
+		});
+		try {
+			await cleanProject({ rootDir: "/proj", force: true, reporter: "json" });
+		} finally {
+			console.log = originalLog;
+		}
+
+		expect(output).toHaveLength(1);
+		const report = JSON.parse(output[0] ?? "");
+		expect(report.action).toBe("delete");
+		expect(report.totalSize).toBe(10);
+		expect(report.freedBytes).toBe(10);
+		expect(report.results).toHaveLength(2);
+	});
+
+	test("custom reporter receives lifecycle events", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject, SilentReporter } = await importIndex("reporter");
+
+		const events: string[] = [];
+		class RecordingReporter extends SilentReporter {
+			showTargets(targets: { path: string }[]) {
+				events.push(`targets:${targets.map((t) => t.path).join(",")}`);
+			}
+			async confirm() {
+				events.push("confirm");
+				return true;
+			}
+			showItemResult(result: { path: string; status: string }) {
+				events.push(`${result.status}:${result.path}`);
+			}
+			finish() {
+				events.push("finish");
+			}
+		}
+
+		globMock.mockImplementationOnce(async () => ["dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+
+		await cleanProject({ rootDir: "/proj", reporter: new RecordingReporter() });
+
+		expect(promptsMock).not.toHaveBeenCalled();
+		expect(events).toEqual([
+			"targets:dist",
+			"confirm",
+			"deleted:dist",
+			"finish",
+		]);
+	});
+
+	test("custom reporter can cancel the cleanup", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject, SilentReporter } =
+			await importIndex("reporterCancel");
+
+		const reporter = new SilentReporter();
+		reporter.confirm = async () => false;
+		const cancelled = mock(() => {});
+		reporter.showCancelled = cancelled;
+
+		globMock.mockImplementationOnce(async () => ["dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+
+		await cleanProject({ rootDir: "/proj", reporter });
+
+		expect(cancelled).toHaveBeenCalled();
+		expect(rmMock).not.toHaveBeenCalled();
+	});
+
+	test("returns what was deleted, what failed and the freed bytes", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("result");
+
+		globMock.mockImplementationOnce(async () => ["ok", "fail"]);
+		getFolderSizeMock.mockImplementation(async () => 100);
+		rmMock.mockImplementation(async (path?: unknown) => {
+			if (String(path).endsWith("fail")) throw new Error("boom");
+		});
+
+		const result = await cleanProject({ rootDir: "/proj", force: true });
+
+		expect(result.status).toBe("cleaned");
+		expect(result.targets).toEqual([
+			{ path: "ok", size: 100 },
+			{ path: "fail", size: 100 },
+		]);
+		expect(result.deleted).toEqual(["ok"]);
+		expect(result.errors).toEqual([{ path: "fail", message: "boom" }]);
+		expect(result.freedBytes).toBe(100);
+		expect(result.elapsedTime).toBeGreaterThanOrEqual(0);
+		expect(result.reinstall).toBeUndefined();
+	});
+
+	test("interactive mode deletes only the selected targets", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("interactive");
+
+		globMock.mockImplementationOnce(async () => ["small", "big"]);
+		getFolderSizeMock.mockImplementation(async (p: string) =>
+			p.endsWith("big") ? 500 : 5,
+		);
+		promptsMock.mockImplementationOnce(async () => ({ selected: ["big"] }));
+		promptsMock.mockImplementationOnce(async () => ({ remember: false }));
+
+		const result = await cleanProject({ rootDir: "/proj", interactive: true });
+
+		const question = promptsMock.mock.calls[0]?.[0] as {
+			type: string;
+			choices: { value: string; description: string }[];
+		};
+		expect(question.type).toBe("multiselect");
+		expect(question.choices.map((c) => c.value)).toEqual(["big", "small"]);
+		expect(question.choices[0]?.description).toContain("500 B");
+		expect(rmMock).toHaveBeenCalledTimes(1);
+		expect(result.deleted).toEqual(["big"]);
+		expect(addToIgnoreListMock).not.toHaveBeenCalled();
+	});
+
+	test("interactive mode can remember unselected targets", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("interactiveRemember");
+
+		globMock.mockImplementationOnce(async () => ["a/dist", "b/dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		promptsMock.mockImplementationOnce(async () => ({ selected: ["a/dist"] }));
+		promptsMock.mockImplementationOnce(async () => ({ remember: true }));
+
+		await cleanProject({ rootDir: "/proj", interactive: true });
+
+		expect(addToIgnoreListMock).toHaveBeenCalledWith("/proj", ["b/dist/**"]);
+	});
+
+	test("interactive mode still cleans when the ignore list cannot be updated", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject, ConfigError } = await importIndex(
+			"interactiveRememberFails",
+		);
+
+		globMock.mockImplementationOnce(async () => ["a/dist", "b/dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		promptsMock.mockImplementationOnce(async () => ({ selected: ["a/dist"] }));
+		promptsMock.mockImplementationOnce(async () => ({ remember: true }));
+		addToIgnoreListMock.mockImplementationOnce(async () => {
+			throw new ConfigError("Cannot update /proj/.purgorc.yaml automatically");
+		});
+		const consoleError = spyOn(console, "error").mockImplementation(() => {});
+
+		const result = await cleanProject({ rootDir: "/proj", interactive: true });
+
+		expect(result.deleted).toEqual(["a/dist"]);
+		expect(String(consoleError.mock.calls.at(-1)?.[0])).toContain("b/dist/**");
+	});
+
+	test("interactive mode with nothing selected cancels", async () => {
+		const { cleanProject } = await importIndex("interactiveNone");
+
+		globMock.mockImplementationOnce(async () => ["dist"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		promptsMock.mockImplementationOnce(async () => ({ selected: [] }));
+
+		const result = await cleanProject({ rootDir: "/proj", interactive: true });
+
+		expect(result.status).toBe("cancelled");
+		expect(rmMock).not.toHaveBeenCalled();
+	});
+
+	test("olderThan skips targets touched recently", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("olderThan");
+
+		const day = 24 * 60 * 60 * 1000;
+		globMock.mockImplementationOnce(async () => ["old", "recent"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		statMock.mockImplementation(async (p: string) => ({
+			mtime: new Date(Date.now() - (p.endsWith("old") ? 30 : 1) * day),
+		}));
+
+		const result = await cleanProject({
+			rootDir: "/proj",
+			force: true,
+			olderThan: "7d",
+		});
+
+		statMock.mockImplementation(async () => ({ mtime: new Date(0) }));
+
+		expect(result.deleted).toEqual(["old"]);
+		expect(rmMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("minAge from config applies when no option is given", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false, minAge: 7 },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("minAge");
+
+		globMock.mockImplementationOnce(async () => ["recent"]);
+		getFolderSizeMock.mockImplementation(async () => 1);
+		statMock.mockImplementationOnce(async () => ({ mtime: new Date() }));
+
+		const result = await cleanProject({ rootDir: "/proj", force: true });
+
+		expect(result.status).toBe("nothing-to-clean");
+		expect(rmMock).not.toHaveBeenCalled();
+	});
+
+	test("free deletes the largest targets until the goal is reached", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("free");
+
+		globMock.mockImplementationOnce(async () => ["a", "b", "c"]);
+		getFolderSizeMock.mockImplementation(async (p: string) =>
+			p.endsWith("b") ? 3_000_000 : 1_000_000,
+		);
+
+		const result = await cleanProject({
+			rootDir: "/proj",
+			force: true,
+			free: "3.5MB",
+		});
+
+		expect(result.deleted.sort()).toEqual(["a", "b"]);
+		expect(result.freedBytes).toBe(4_000_000);
+	});
+
+	test("minSize skips every target below the threshold", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { protectSelf: false, minSize: "1KB" },
+			})),
+		}));
+
+		const { cleanProject } = await importIndex("minSize");
+
+		globMock.mockImplementationOnce(async () => ["tiny"]);
+		getFolderSizeMock.mockImplementation(async () => 10);
+
+		const result = await cleanProject({ rootDir: "/proj", force: true });
+
+		expect(result.status).toBe("nothing-to-clean");
+		expect(rmMock).not.toHaveBeenCalled();
+	});
+
+	test("deletes at most `concurrency` targets at once", async () => {
+		mock.module("../src/config", () => ({
+			loadConfig: mock(async () => ({
+				config: { targets: ["dist"], protectSelf: false },
+			})),
+		}));
+		const { cleanProject } = await importIndex("concurrency");
+
+		const paths = ["a/dist", "b/dist", "c/dist", "d/dist", "e/dist", "f/dist"];
+		globMock.mockImplementationOnce(async () => paths);
+		getFolderSizeMock.mockImplementation(async () => 10);
+		let running = 0;
+		let maxRunning = 0;
+		rmMock.mockImplementation(async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			running--;
+		});
+
+		const result = await cleanProject({
+			rootDir: "/proj",
+			force: true,
+			concurrency: 2,
+		});
+
+		expect(maxRunning).toBe(2);
+		expect(result.deleted).toHaveLength(6);
+		expect(result.freedBytes).toBe(60);
+	});
+
+	describe("fast mode", () => {
+		beforeEach(() => {
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: { protectSelf: false, sizeCache: false },
+				})),
+			}));
+			getFolderSizeMock.mockImplementation(async () => 1);
+		});
+
+		test("moves targets aside and removes them in the background", async () => {
+			const { cleanProject } = await importIndex("fast");
+			globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+
+			const result = await cleanProject({
+				rootDir: "/proj",
+				force: true,
+				fast: true,
+			});
+
+			expect(rmMock).not.toHaveBeenCalled();
+			const renames = renameMock.mock.calls.map((c) =>
+				(c as unknown[]).map(String),
+			);
+			expect(renames.map(([from]) => from).sort()).toEqual([
+				"/proj/dist",
+				"/proj/node_modules",
+			]);
+			for (const [from, to] of renames) {
+				expect(to).toStartWith("/proj/.purgo-trash-");
+				expect(to).toEndWith(`-${from?.split("/").pop()}`);
+			}
+			expect(removeInBackgroundMock).toHaveBeenLastCalledWith(
+				renames.map(([, to]) => to),
+			);
+			expect(result.deleted.sort()).toEqual(["dist", "node_modules"]);
+		});
+
+		test("sweeps leftovers of interrupted fast deletions", async () => {
+			const { cleanProject } = await importIndex("fast-sweep");
+			globMock.mockImplementationOnce(async () => ["dist"]);
+			globMock.mockImplementationOnce(async () => [".purgo-trash-old-dist"]);
+
+			await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(removeInBackgroundMock).toHaveBeenCalledWith([
+				"/proj/.purgo-trash-old-dist",
+			]);
+			expect(rmMock).toHaveBeenCalledTimes(1);
+		});
+
+		test("cannot be combined with the trash strategy", async () => {
+			const { cleanProject } = await importIndex("fast-trash");
+
+			await expect(
+				cleanProject({
+					rootDir: "/proj",
+					force: true,
+					fast: true,
+					deleteStrategy: "trash",
+				}),
+			).rejects.toThrow("trash delete strategy");
+			expect(renameMock).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("uncommitted work", () => {
+		const mockGitStatus = (porcelain: string) =>
+			execaMock.mockImplementation(async (_cmd: string, args: string[]) => ({
+				stdout: args.includes("status") ? porcelain : "",
+				stderr: "",
+				exitCode: 0,
+			}));
+
+		beforeEach(() => {
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: { protectSelf: false },
+				})),
+			}));
+			globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+			getFolderSizeMock.mockImplementation(async () => 1);
+		});
+
+		test("force keeps targets holding uncommitted changes", async () => {
+			const { cleanProject } = await importIndex("dirty-force");
+			mockGitStatus(" M dist/hand-edited.js\0?? dist/new.js\0");
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(result.deleted).toEqual(["node_modules"]);
+			expect(result.targets).toHaveLength(2);
+		});
+
+		test("asks again before deleting uncommitted changes", async () => {
+			const { cleanProject } = await importIndex("dirty-confirm");
+			mockGitStatus("?? dist/\0");
+			promptsMock.mockImplementationOnce(async () => ({ confirm: true }));
+			promptsMock.mockImplementationOnce(async () => ({ confirm: false }));
+
+			const result = await cleanProject({ rootDir: "/proj" });
+
+			expect(promptsMock).toHaveBeenCalledTimes(2);
+			const question = promptsMock.mock.calls[1]?.[0] as { message: string };
+			expect(question.message).toContain("uncommitted changes (dist)");
+			expect(result.deleted).toEqual(["node_modules"]);
+		});
+
+		test("allowDirty deletes them without a second confirmation", async () => {
+			const { cleanProject } = await importIndex("dirty-allow");
+			mockGitStatus(" M dist/hand-edited.js\0");
+
+			const result = await cleanProject({
+				rootDir: "/proj",
+				force: true,
+				allowDirty: true,
+			});
+
+			expect(result.deleted.sort()).toEqual(["dist", "node_modules"]);
+		});
+
+		test("cancels when every target holds uncommitted changes", async () => {
+			const { cleanProject } = await importIndex("dirty-all");
+			mockGitStatus(" M dist/a.js\0 M node_modules/patched/index.js\0");
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(result.status).toBe("cancelled");
+			expect(rmMock).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("guardrails", () => {
+		beforeEach(() => {
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: { protectSelf: false, guardrails: { maxTargets: 1 } },
+				})),
+			}));
+			globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+			getFolderSizeMock.mockImplementation(async () => 1);
+		});
+
+		test("refuses to clean the filesystem root", async () => {
+			const { cleanProject, GuardrailError } = await importIndex("root");
+
+			const cleanup = cleanProject({ rootDir: "/", force: true });
+
+			await expect(cleanup).rejects.toBeInstanceOf(GuardrailError);
+			await expect(cleanup).rejects.toThrow("--i-know-what-im-doing");
+			expect(globMock).not.toHaveBeenCalled();
+		});
+
+		test("asks before going beyond the ceilings, even with force", async () => {
+			const { cleanProject } = await importIndex("ceiling");
+			promptsMock.mockImplementationOnce(async () => ({ confirm: false }));
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			const question = promptsMock.mock.calls[0]?.[0] as {
+				message: string;
+				initial: boolean;
+			};
+			expect(question.message).toContain("more than the guardrail of 1");
+			expect(question.initial).toBe(false);
+			expect(result.status).toBe("cancelled");
+			expect(rmMock).not.toHaveBeenCalled();
+		});
+
+		test("cancels beyond the ceilings when no terminal can answer", async () => {
+			const { cleanProject } = await importIndex("ceiling-no-tty");
+			process.stdin.isTTY = false;
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(promptsMock).not.toHaveBeenCalled();
+			expect(result.status).toBe("cancelled");
+			expect(rmMock).not.toHaveBeenCalled();
+		});
+
+		test("SilentReporter declines going beyond the ceilings", async () => {
+			const { cleanProject, SilentReporter } =
+				await importIndex("ceiling-silent");
+
+			const result = await cleanProject({
+				rootDir: "/proj",
+				force: true,
+				reporter: new SilentReporter(),
+			});
+
+			expect(result.status).toBe("cancelled");
+			expect(rmMock).not.toHaveBeenCalled();
+		});
+
+		test("overrideGuardrails skips the question", async () => {
+			const { cleanProject } = await importIndex("ceiling-override");
+
+			const result = await cleanProject({
+				rootDir: "/proj",
+				force: true,
+				overrideGuardrails: true,
+			});
+
+			expect(promptsMock).not.toHaveBeenCalled();
+			expect(result.deleted.sort()).toEqual(["dist", "node_modules"]);
+		});
+	});
+
+	describe("hooks", () => {
+		const hookCalls = () =>
+			execaMock.mock.calls
+				.filter(([cmd]) => cmd === "sh")
+				.map(([, args, opts]) => ({
+					command: args[1],
+					env: (opts as { env: Record<string, string> }).env,
+				}));
+
+		beforeEach(() => {
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: {
+						protectSelf: false,
+						hooks: {
+							preDelete: "pre-delete",
+							postDelete: "post-delete",
+							onCancel: "on-cancel",
+							postClean: "post-clean",
+						},
+					},
+				})),
+			}));
+			globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+			getFolderSizeMock.mockImplementation(async () => 10);
+			spyOn(console, "log").mockImplementation(() => {});
+		});
+
+		test("run around each target and after the cleanup", async () => {
+			const { cleanProject } = await importIndex("hooks-targets");
+
+			await cleanProject({ rootDir: "/proj", force: true, concurrency: 1 });
+
+			const calls = hookCalls();
+			expect(calls.map((call) => call.command)).toEqual([
+				"pre-delete",
+				"post-delete",
+				"pre-delete",
+				"post-delete",
+				"post-clean",
+			]);
+			expect(calls[0]?.env).toMatchObject({
+				PURGO_TARGET: "dist",
+				PURGO_TARGET_PATH: "/proj/dist",
+				PURGO_TARGET_SIZE: "10",
+			});
+			expect(calls[4]?.env).toMatchObject({
+				PURGO_DELETED: "dist\nnode_modules",
+				PURGO_FREED_BYTES: "20",
+				PURGO_ERROR_COUNT: "0",
+			});
+		});
+
+		test("a failing preDelete hook keeps the target", async () => {
+			const { cleanProject } = await importIndex("hooks-pre-delete");
+			execaMock.mockImplementation(async (cmd: string, args: string[]) => {
+				if (cmd === "sh" && args[1] === "pre-delete") {
+					throw new Error("veto");
+				}
+				return { stdout: "", stderr: "", exitCode: 0 };
+			});
+			spyOn(console, "error").mockImplementation(() => {});
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(rmMock).not.toHaveBeenCalled();
+			expect(result.errors[0]?.message).toStartWith(
+				"preDelete hook failed, target was not deleted",
+			);
+		});
+
+		test("a failing postClean hook still prints the JSON report", async () => {
+			const { cleanProject, HookError } = await importIndex("hooks-post-json");
+			execaMock.mockImplementation(async (cmd: string, args: string[]) => {
+				if (cmd === "sh" && args[1] === "post-clean") {
+					throw new Error("upload failed");
+				}
+				return { stdout: "", stderr: "", exitCode: 0 };
+			});
+			const log = spyOn(console, "log").mockImplementation(() => {});
+			log.mockClear();
+
+			const cleanup = cleanProject({
+				rootDir: "/proj",
+				force: true,
+				reporter: "json",
+			});
+
+			await expect(cleanup).rejects.toBeInstanceOf(HookError);
+			expect(log).toHaveBeenCalledTimes(1);
+			const report = JSON.parse(String(log.mock.calls[0]?.[0]));
+			expect(report.action).toBe("delete");
+			expect(report.freedBytes).toBe(20);
+			expect(report.error).toContain("upload failed");
+		});
+
+		test("a preDelete function returning false keeps the target", async () => {
+			const preDelete = mock(
+				async ({ target }: { target: { path: string } }) =>
+					target.path !== "node_modules",
+			);
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: { protectSelf: false, hooks: { preDelete } },
+				})),
+			}));
+			const { cleanProject } = await importIndex("hooks-function");
+
+			const result = await cleanProject({ rootDir: "/proj", force: true });
+
+			expect(preDelete).toHaveBeenCalledWith(
+				expect.objectContaining({
+					hook: "preDelete",
+					rootDir: "/proj",
+					target: { path: "dist", absolutePath: "/proj/dist", size: 10 },
+					config: expect.objectContaining({ protectSelf: false }),
+				}),
+			);
+			expect(result.deleted).toEqual(["dist"]);
+			expect(result.errors).toEqual([]);
+		});
+
+		test("onCancel runs when the confirmation is declined", async () => {
+			const { cleanProject } = await importIndex("hooks-cancel");
+			promptsMock.mockImplementationOnce(async () => ({ confirm: false }));
+
+			const result = await cleanProject({ rootDir: "/proj" });
+
+			expect(result.status).toBe("cancelled");
+			expect(hookCalls()).toEqual([
+				expect.objectContaining({
+					command: "on-cancel",
+					env: expect.objectContaining({
+						PURGO_TARGETS: "dist\nnode_modules",
+					}),
+				}),
+			]);
+		});
+	});
+
+	describe("plugins", () => {
+		beforeEach(() => {
+			globMock.mockImplementationOnce(async () => ["node_modules", "dist"]);
+			getFolderSizeMock.mockImplementation(async () => 10);
+		});
+
+		test("can keep targets and receive reporter events", async () => {
+			const showSummary = mock(() => {});
+			mock.module("../src/config", () => ({
+				loadConfig: mock(async () => ({
+					config: {
+						protectSelf: false,
+						plugins: [
+							{
+								name: "dev-server",
+								beforeDelete: ({ path }: { path: string }) =>
+									path === "dist" ? "served by the dev server" : undefined,
+								reporter: { showSummary },
+							},
+						],
+					},
+				})),
+			}));
+			const { cleanProject } = await importIndex("plugins-veto");
+
+			const result = await cleanProject({
+				rootDir: "/proj",
+				force: true,
+				reporter: "json",
+			});
+
+			expect(result.deleted).toEqual(["node_modules"]);
+			expect(result.errors).toEqual([]);
+			expect(showSummary).toHaveBeenCalledWith(
+				expect.objectContaining({ deletedCount: 1 }),
+			);
+		});
+	});
 });
@@ -1,13 +1,86 @@
-import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
 
-const cleanProjectMock = mock(async (_opts: unknown) => {});
-mock.module("../src/index", () => ({ cleanProject: cleanProjectMock }));
+const cleanResult = (
+	overrides: Partial<import("../src").CleanResult> = {},
+): import("../src").CleanResult => ({
+	status: "cleaned",
+	targets: [],
+	deleted: [],
+	errors: [],
+	freedBytes: 0,
+	elapsedTime: 0,
+	...overrides,
+});
+const cleanProjectMock = mock(async (_opts: unknown) => cleanResult());
+const resolveBackupDirMock = mock(async (_opts: unknown) => "/backups");
+const listBackupRunsMock = mock(async (_dir: string) => [] as unknown[]);
+const findBackupRunMock = mock(async (_id: string, _dir: string) => ({}));
+const restoreBackupRunMock = mock(
+	async (
+		_m: unknown,
+		_o: unknown,
+	): Promise<import("../src").RestoreResult> => ({
+		restored: [],
+		skipped: [],
+		errors: [],
+	}),
+);
+const emptyTrashMock = mock(async (_opts: unknown) => ({
+	removed: ["run-1"],
+	freedBytes: 10,
+}));
+const scanWorkspaceMock = mock(
+	async (_opts: unknown): Promise<import("../src").ScanResult> => ({
+		projects: [],
+		totalSize: 0,
+	}),
+);
+const findPackageCachesMock = mock(
+	async (
+		_managers?: string[],
+		_cwd?: string,
+	): Promise<import("../src").PackageCache[]> => [],
+);
+const prunePackageCacheMock = mock(
+	async (
+		cache: import("../src").PackageCache,
+		_cwd?: string,
+	): Promise<import("../src").PruneResult> => ({
+		manager: cache.manager,
+		freedBytes: cache.size,
+	}),
+);
+mock.module("../src/index", () => ({
+	emptyTrash: emptyTrashMock,
+	getDefaultTrashDir: () => "/trash",
+	listTrashRuns: mock(async () => []),
+	cleanProject: cleanProjectMock,
+	resolveBackupDir: resolveBackupDirMock,
+	listBackupRuns: listBackupRunsMock,
+	findBackupRun: findBackupRunMock,
+	restoreBackupRun: restoreBackupRunMock,
+	scanWorkspace: scanWorkspaceMock,
+	SilentReporter: class {},
+	findPackageCaches: findPackageCachesMock,
+	prunePackageCache: prunePackageCacheMock,
+	PACKAGE_MANAGERS: ["npm", "pnpm", "yarn", "bun"],
+}));
 
 const exitOrig = process.exit;
 let exitCalledWith: number | null = null;
 
 beforeEach(() => {
 	cleanProjectMock.mockReset();
+	cleanProjectMock.mockImplementation(async () => cleanResult());
+	process.exitCode = 0;
+	resolveBackupDirMock.mockClear();
+	listBackupRunsMock.mockReset();
+	findBackupRunMock.mockReset();
+	restoreBackupRunMock.mockClear();
+	emptyTrashMock.mockClear();
+	scanWorkspaceMock.mockReset();
+	findPackageCachesMock.mockClear();
+	prunePackageCacheMock.mockClear();
 	exitCalledWith = null;
 	process.exit = (code?: number) => {
 		exitCalledWith = (code as number) ?? 0;
@@ -18,6 +91,15 @@ beforeEach(() => {
 const importCli = async (suffix: string) =>
 	await import(`../src/cli?${suffix}`);
 
+const runCli = async (suffix: string, args: string[]) => {
+	const oldArgv = process.argv;
+	process.argv = ["node", "purgo", ...args] as NodeJS.Process["argv"];
+	await importCli(suffix);
+	// Let the async action settle
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	process.argv = oldArgv;
+};
+
 describe("CLI clean command", () => {
 	test("maps flags correctly to cleanProject", async () => {
 		const argv = [
@@ -52,6 +134,69 @@ describe("CLI clean command", () => {
 		process.argv = oldArgv;
 	});
 
+	test("collects repeated --workspace and --filter options", async () => {
+		await runCli("workspaces", [
+			"clean",
+			"-w",
+			"@acme/web",
+			"--workspace",
+			"./packages/*",
+			"--filter",
+			"!@acme/ui",
+		]);
+
+		const opts = cleanProjectMock.mock
+			.calls[0]?.[0] as import("../src").CleanOptions;
+		expect(opts.workspace).toEqual(["@acme/web", "./packages/*"]);
+		expect(opts.filter).toEqual(["!@acme/ui"]);
+	});
+
+	test("maps --no-size and --estimate to a size mode", async () => {
+		await runCli("no-size", ["clean", "--no-size"]);
+		await runCli("estimate", ["clean", "--estimate"]);
+		await runCli("exact", ["clean"]);
+
+		const modes = cleanProjectMock.mock.calls.map(
+			(call) => (call[0] as import("../src").CleanOptions).sizeMode,
+		);
+		expect(modes).toEqual(["none", "estimate", undefined]);
+	});
+
+	test("rejects an invalid --older-than before cleaning", async () => {
+		const stderr = spyOn(process.stderr, "write").mockImplementation(
+			() => true,
+		);
+
+		const oldArgv = process.argv;
+		process.argv = ["node", "purgo", "clean", "--older-than", "7 days"];
+		// The real process.exit would stop here; the stubbed one lets commander throw
+		await expect(importCli("bad-older-than")).rejects.toThrow(
+			"Must be a number followed by",
+		);
+		process.argv = oldArgv;
+
+		stderr.mockRestore();
+		expect(exitCalledWith).toBe(1);
+		expect(cleanProjectMock).not.toHaveBeenCalled();
+	});
+
+	test("rejects an invalid size before cleaning", async () => {
+		const stderr = spyOn(process.stderr, "write").mockImplementation(
+			() => true,
+		);
+
+		const oldArgv = process.argv;
+		process.argv = ["node", "purgo", "clean", "--free", "10 gigs"];
+		await expect(importCli("bad-free")).rejects.toThrow(
+			"Must be a number followed by B, KB",
+		);
+		process.argv = oldArgv;
+
+		stderr.mockRestore();
+		expect(exitCalledWith).toBe(1);
+		expect(cleanProjectMock).not.toHaveBeenCalled();
+	});
+
 	test("on action error, exits with exit(1)", async () => {
 		cleanProjectMock.mockImplementationOnce(async () => {
 			throw new Error("boom");
@@ -59,6 +204,276 @@ describe("CLI clean command", () => {
 		await importCli("error");
 		expect(exitCalledWith).toBe(1);
 	});
+
+	test("partial failures set exit code 2", async () => {
+		cleanProjectMock.mockImplementationOnce(async () =>
+			cleanResult({ errors: [{ path: "dist", message: "EPERM" }] }),
+		);
+
+		await runCli("partial", ["clean", "--force"]);
+
+		expect(process.exitCode).toBe(2);
+		process.exitCode = 0;
+	});
+
+	test("cancellation sets exit code 3", async () => {
+		cleanProjectMock.mockImplementationOnce(async () =>
+			cleanResult({ status: "cancelled" }),
+		);
+
+		await runCli("cancelled", ["clean"]);
+
+		expect(process.exitCode).toBe(3);
+		process.exitCode = 0;
+	});
+
+	test("hook failures exit with their own code", async () => {
+		const { HookError } = await import("../src/errors");
+		cleanProjectMock.mockImplementationOnce(async () => {
+			throw new HookError("preClean", "Hook failed");
+		});
+
+		await runCli("hook", ["clean", "--force"]);
+
+		expect(exitCalledWith).toBe(4);
+	});
+});
+
+describe("CLI restore command", () => {
+	const run = {
+		version: 1,
+		id: "2025-01-01T00-00-00-000Z-abc123",
+		format: "tar",
+		rootDir: "/proj",
+		createdAt: "2025-01-01T00:00:00.000Z",
+		totalSize: 10,
+		entries: [],
+	};
+
+	test("--list lists runs without restoring", async () => {
+		listBackupRunsMock.mockImplementationOnce(async () => [run]);
+
+		await runCli("restore-list", ["restore", "--list", "--path", "/proj"]);
+
+		expect(resolveBackupDirMock).toHaveBeenCalled();
+		expect(listBackupRunsMock).toHaveBeenCalledWith(["/backups", "/trash"]);
+		expect(restoreBackupRunMock).not.toHaveBeenCalled();
+	});
+
+	test("restores a run by ID with --overwrite", async () => {
+		listBackupRunsMock.mockImplementationOnce(async () => [run]);
+		findBackupRunMock.mockImplementationOnce(async () => run);
+
+		await runCli("restore-id", ["restore", "2025-01-01", "--overwrite"]);
+
+		expect(findBackupRunMock).toHaveBeenCalledWith("2025-01-01", [
+			"/backups",
+			"/trash",
+		]);
+		expect(restoreBackupRunMock).toHaveBeenCalledWith(run, {
+			overwrite: true,
+			backupDirs: ["/backups", "/trash"],
+		});
+		expect(exitCalledWith).toBeNull();
+	});
+
+	test("exits with exit(1) when some entries fail to restore", async () => {
+		listBackupRunsMock.mockImplementationOnce(async () => [run]);
+		findBackupRunMock.mockImplementationOnce(async () => run);
+		restoreBackupRunMock.mockImplementationOnce(async () => ({
+			restored: [],
+			skipped: [],
+			errors: [{ path: "/proj/dist", message: "boom" }],
+		}));
+
+		await runCli("restore-fail", ["restore", "2025"]);
+
+		expect(exitCalledWith).toBe(1);
+	});
+});
+
+describe("CLI scan command", () => {
+	const project = (rootDir: string, size: number) => ({
+		rootDir,
+		targets: [{ path: "node_modules", size }],
+		skipped: [],
+		totalSize: size,
+	});
+
+	test("cleans every project with --force and reports partial failures", async () => {
+		scanWorkspaceMock.mockImplementationOnce(async () => ({
+			projects: [project("/ws/a", 10), project("/ws/b", 20)],
+			totalSize: 30,
+		}));
+		cleanProjectMock.mockImplementationOnce(async () =>
+			cleanResult({ errors: [{ path: "node_modules", message: "EPERM" }] }),
+		);
+
+		await runCli("scan-force", [
+			"scan",
+			"/ws",
+			"--force",
+			"--depth",
+			"2",
+			"--min-size",
+			"1MB",
+		]);
+
+		expect(scanWorkspaceMock).toHaveBeenCalledWith(
+			expect.objectContaining({ baseDir: "/ws", depth: 2, minSize: "1MB" }),
+		);
+		const roots = cleanProjectMock.mock.calls.map(
+			(call) => (call[0] as import("../src").CleanOptions).rootDir,
+		);
+		// Largest project first
+		expect(roots).toEqual(["/ws/b", "/ws/a"]);
+		const opts = cleanProjectMock.mock
+			.calls[0]?.[0] as import("../src").CleanOptions;
+		expect(opts.force).toBe(true);
+		expect(opts.minSize).toBe("1MB");
+		expect(process.exitCode).toBe(2);
+	});
+
+	test("declines a project's own guardrails without a terminal", async () => {
+		scanWorkspaceMock.mockImplementationOnce(async () => ({
+			projects: [project("/ws/a", 10)],
+			totalSize: 10,
+		}));
+		// Stands for a project whose config sets lower guardrails
+		cleanProjectMock.mockImplementationOnce(async (opts) => {
+			const { reporter } = opts as { reporter: import("../src").Reporter };
+			const confirmed = await reporter.confirm(
+				"This cleanup would delete 2 targets, more than the guardrail of 1. Delete them anyway?",
+				false,
+			);
+			return cleanResult({ status: confirmed ? "cleaned" : "cancelled" });
+		});
+
+		await runCli("scan-project-guardrails", ["scan", "/ws", "--force"]);
+
+		expect(cleanProjectMock).toHaveBeenCalledTimes(1);
+		expect(process.exitCode).toBe(3);
+	});
+
+	test("rejects a --depth that is not a whole number", async () => {
+		const stderr = spyOn(process.stderr, "write").mockImplementation(
+			() => true,
+		);
+
+		const oldArgv = process.argv;
+		process.argv = ["node", "purgo", "scan", "/ws", "--depth", "two"];
+		await expect(importCli("scan-bad-depth")).rejects.toThrow(
+			"Must be a whole number of at least 0.",
+		);
+		process.argv = oldArgv;
+
+		stderr.mockRestore();
+		expect(scanWorkspaceMock).not.toHaveBeenCalled();
+	});
+
+	test("only lists projects with --dry-run", async () => {
+		scanWorkspaceMock.mockImplementationOnce(async () => ({
+			projects: [project("/ws/a", 10)],
+			totalSize: 10,
+		}));
+
+		await runCli("scan-dry-run", ["scan", "/ws", "--dry-run"]);
+
+		expect(scanWorkspaceMock).toHaveBeenCalled();
+		expect(cleanProjectMock).not.toHaveBeenCalled();
+	});
+});
+
+describe("CLI cache command", () => {
+	const caches = [
+		{
+			manager: "npm" as const,
+			path: "/home/me/.npm",
+			size: 100,
+			action: "prune" as const,
+		},
+		{
+			manager: "pnpm" as const,
+			path: "/home/me/.pnpm-store",
+			size: 200,
+			action: "prune" as const,
+		},
+	];
+
+	test("only measures the caches without --prune", async () => {
+		findPackageCachesMock.mockImplementationOnce(async () => caches);
+
+		await runCli("cache-list", ["cache", "--manager", "npm", "pnpm"]);
+
+		expect(findPackageCachesMock.mock.calls[0]?.[0]).toEqual(["npm", "pnpm"]);
+		expect(prunePackageCacheMock).not.toHaveBeenCalled();
+	});
+
+	test("tells which caches are cleared entirely rather than pruned", async () => {
+		findPackageCachesMock.mockImplementationOnce(async () => [
+			...caches,
+			{
+				manager: "yarn",
+				path: "/home/me/.yarn/berry/cache",
+				size: 300,
+				action: "clear",
+			},
+		]);
+		const logSpy = spyOn(console, "log").mockImplementation(() => {});
+
+		await runCli("cache-clear", ["cache", "--prune", "--force"]);
+
+		const output = logSpy.mock.calls.map((call) => String(call[0])).join("\n");
+		logSpy.mockRestore();
+		expect(output).toMatch(/yarn .* clears all/);
+		expect(output).toMatch(/yarn .* cleared/);
+		expect(output).toMatch(/pnpm .* pruned/);
+	});
+
+	test("prunes every cache with --prune --force and reports failures", async () => {
+		findPackageCachesMock.mockImplementationOnce(async () => caches);
+		prunePackageCacheMock.mockImplementationOnce(async () => ({
+			manager: "npm",
+			freedBytes: 0,
+			error: "npm cache verify failed: EACCES",
+		}));
+
+		await runCli("cache-prune", ["cache", "--prune", "--force"]);
+
+		expect(
+			prunePackageCacheMock.mock.calls.map(([cache]) => cache.manager),
+		).toEqual(["npm", "pnpm"]);
+		expect(process.exitCode).toBe(2);
+	});
+});
+
+describe("CLI trash command", () => {
+	test("empty --older-than parses the duration", async () => {
+		await runCli("trash-empty", [
+			"trash",
+			"empty",
+			"--older-than",
+			"7d",
+			"--force",
+		]);
+
+		expect(emptyTrashMock).toHaveBeenCalledWith({
+			olderThan: 7 * 24 * 60 * 60 * 1000,
+		});
+	});
+
+	test("empty exits with exit(1) on an invalid duration", async () => {
+		await runCli("trash-invalid", [
+			"trash",
+			"empty",
+			"--older-than",
+			"soon",
+			"--force",
+		]);
+
+		expect(emptyTrashMock).not.toHaveBeenCalled();
+		expect(exitCalledWith).toBe(1);
+	});
 });
 
 process.exit = exitOrig;
@@ -1,4 +1,8 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fs from "node:fs";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFs = { ...fs };
 
 type CosmiconfigResult = {
 	config: unknown;
@@ -17,7 +21,7 @@ const cosmiconfigMockFactory = (_ns: string) => ({
 	load: async (fp: string) => loadMap.get(norm(fp)) ?? null,
 });
 
-mock.module("node:fs", () => ({ existsSync: existsSyncMock }));
+mock.module("node:fs", () => ({ ...actualFs, existsSync: existsSyncMock }));
 mock.module("cosmiconfig", () => ({ cosmiconfig: cosmiconfigMockFactory }));
 
 const cacheMock = {
@@ -256,6 +260,20 @@ describe("loadConfig", () => {
 		expect(loaded.config.hooks?.postClean).toBe("global-post");
 	});
 
+	test("accepts function hooks from JavaScript and TypeScript configs", async () => {
+		const { defineConfig, loadConfig } = await importConfig("function-hooks");
+		const projectRoot = "/proj";
+		const preDelete = async () => false;
+
+		searchMap.set(projectRoot, {
+			config: defineConfig({ hooks: { preDelete } }),
+			filepath: `${projectRoot}/purgo.config.ts`,
+		});
+
+		const loaded = await loadConfig({ projectRoot });
+		expect(loaded.config.hooks?.preDelete).toBe(preDelete);
+	});
+
 	test("confirms merge order global -> workspace -> package.json", async () => {
 		const { loadConfig } = await importConfig("order");
 		const projectRoot = "/proj";
@@ -0,0 +1,379 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+import * as globModule from "glob";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+const actualGlob = { ...globModule };
+
+type GlobOptions = { cwd: string; ignore: string[] };
+
+const globMock = mock(
+	async (_patterns: string[], _opts: GlobOptions): Promise<string[]> => [],
+);
+const getFolderSizeMock = mock(async (_p: string) => 1000);
+
+const execaMock = mock(
+	async (_cmd: string, _args: string[], _opts: unknown) => ({ stdout: "" }),
+);
+const dirEntries = new Map<string, string[]>();
+const fileContents = new Map<string, string>();
+const realPaths = new Map<string, string>();
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		const content = fileContents.get(p.replace(/\\/g, "/"));
+		if (content === undefined) throw new Error(`ENOENT: ${p}`);
+		return content;
+	},
+	realpath: async (p: string) => {
+		const real = realPaths.get(p);
+		if (!real) throw new Error(`ENOENT: ${p}`);
+		return real;
+	},
+	readdir: async (p: string, _opts?: unknown) =>
+		(dirEntries.get(p.replace(/\\/g, "/").replace(/\/$/, "")) ?? []).map(
+			(entry) => ({
+				name: entry.replace(/\/$/, ""),
+				isDirectory: () => entry.endsWith("/"),
+			}),
+		),
+}));
+mock.module("execa", () => ({ execa: execaMock }));
+mock.module("glob", () => ({ ...actualGlob, glob: globMock }));
+mock.module("get-folder-size", () => ({ default: getFolderSizeMock }));
+
+const importDiscovery = async (suffix: string = String(Math.random())) =>
+	await import(`../src/discovery?${suffix}`);
+
+beforeEach(() => {
+	globMock.mockReset();
+	globMock.mockImplementation(async () => []);
+	getFolderSizeMock.mockClear();
+	execaMock.mockReset();
+	execaMock.mockImplementation(async () => ({ stdout: "" }));
+	dirEntries.clear();
+	fileContents.clear();
+	realPaths.clear();
+	process.env.PURGO_PROTECT_DIR = "/nonexistent";
+});
+
+afterEach(() => {
+	delete process.env.PURGO_PROTECT_DIR;
+});
+
+describe("discoverTargets with scopes", () => {
+	test("searches each scope with its own targets and ignore list", async () => {
+		const { discoverTargets } = await importDiscovery("scopes");
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: { targets: ["node_modules"] },
+			scopes: [
+				{ dir: "." },
+				{
+					dir: "apps/web",
+					name: "@acme/web",
+					targets: [".next"],
+					ignore: ["fixtures/**"],
+				},
+			],
+		});
+
+		const [rootCall, webCall] = globMock.mock.calls;
+		expect(rootCall?.[0]).toEqual(["**/node_modules"]);
+		// The package is searched on its own
+		expect(rootCall?.[1].ignore).toContain("apps/web/**");
+		expect(webCall?.[0]).toEqual(["apps/web/**/.next"]);
+		expect(webCall?.[1].ignore).toContain("apps/web/fixtures/**");
+	});
+
+	test("labels targets with their workspace", async () => {
+		const { discoverTargets } = await importDiscovery("labels");
+		globMock.mockImplementation(async (patterns: string[]) =>
+			patterns[0]?.startsWith("apps/web/")
+				? ["apps/web/node_modules"]
+				: ["node_modules"],
+		);
+
+		const { targets } = await discoverTargets({
+			rootDir: "/ws",
+			config: {},
+			scopes: [{ dir: "." }, { dir: "apps/web", name: "@acme/web" }],
+		});
+
+		expect(
+			targets.map((t: { path: string; workspace?: string }) => [
+				t.path,
+				t.workspace,
+			]),
+		).toEqual([
+			["node_modules", undefined],
+			["apps/web/node_modules", "@acme/web"],
+		]);
+	});
+
+	test("explicit targets win over the scope's own ones", async () => {
+		const { discoverTargets } = await importDiscovery("explicit");
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: {},
+			targets: ["dist"],
+			scopes: [{ dir: "apps/web", targets: [".next"] }],
+		});
+
+		expect(globMock.mock.calls[0]?.[0]).toEqual(["apps/web/**/dist"]);
+	});
+});
+
+describe("discoverTargets with rich targets", () => {
+	test("turns negations into ignore patterns", async () => {
+		const { discoverTargets } = await importDiscovery("negations");
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: { targets: ["dist", "!packages/legacy/dist", "/build"] },
+		});
+
+		expect(globMock).toHaveBeenCalledTimes(1);
+		const [patterns, opts] = globMock.mock.calls[0] ?? [];
+		expect(patterns).toEqual(["**/dist", "build"]);
+		expect(opts?.ignore).toContain("**/packages/legacy/dist");
+		expect(opts?.ignore).toContain("**/packages/legacy/dist/**");
+	});
+
+	test("searches restricted targets with their own glob options", async () => {
+		const { discoverTargets } = await importDiscovery("restricted");
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: {},
+			targets: [
+				"node_modules",
+				{ pattern: "*.tsbuildinfo", type: "file" },
+				{ pattern: "out", type: "dir", maxDepth: 2 },
+			],
+			scopes: [{ dir: "apps/web" }],
+		});
+
+		const calls = globMock.mock.calls.map(([patterns, opts]) => [
+			patterns,
+			opts,
+		]);
+		expect(calls[0]?.[0]).toEqual(["apps/web/**/node_modules"]);
+		expect(calls[1]?.[0]).toEqual(["apps/web/**/*.tsbuildinfo"]);
+		expect(calls[1]?.[1]).toMatchObject({ nodir: true });
+		expect(calls[2]?.[0]).toEqual(["apps/web/**/out/"]);
+		// Depth is counted from the scope directory
+		expect(calls[2]?.[1]).toMatchObject({ maxDepth: 4 });
+	});
+});
+
+describe("discoverTargets with presets", () => {
+	test("adds the presets detected in each package to the defaults", async () => {
+		const { discoverTargets } = await importDiscovery("detect");
+		fileContents.set(
+			"/ws/package.json",
+			JSON.stringify({ devDependencies: { turbo: "^2.0.0" } }),
+		);
+		fileContents.set(
+			"/ws/apps/web/package.json",
+			JSON.stringify({ dependencies: { next: "^15.0.0" } }),
+		);
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: {},
+			scopes: [{ dir: "." }, { dir: "apps/web", name: "@acme/web" }],
+		});
+
+		const [rootCall, webCall] = globMock.mock.calls;
+		expect(rootCall?.[0]).toContain("**/.turbo");
+		expect(rootCall?.[0]).not.toContain("**/.next");
+		expect(webCall?.[0]).toContain("apps/web/**/.turbo");
+		expect(webCall?.[0]).toContain("apps/web/**/.next");
+	});
+
+	test("uses the configured presets instead of detecting them", async () => {
+		const { discoverTargets } = await importDiscovery("configured");
+		fileContents.set(
+			"/ws/package.json",
+			JSON.stringify({ dependencies: { next: "^15.0.0" } }),
+		);
+
+		await discoverTargets({
+			rootDir: "/ws",
+			config: { targets: ["node_modules"], presets: ["nuxt"] },
+		});
+
+		expect(globMock.mock.calls[0]?.[0]).toEqual([
+			"**/node_modules",
+			"**/.nuxt",
+			"**/.output",
+		]);
+	});
+
+	test("detects nothing when targets are configured", async () => {
+		const { discoverTargets } = await importDiscovery("no-detect");
+		fileContents.set(
+			"/ws/package.json",
+			JSON.stringify({ dependencies: { next: "^15.0.0" } }),
+		);
+
+		await discoverTargets({ rootDir: "/ws", config: { targets: ["dist"] } });
+
+		expect(globMock.mock.calls[0]?.[0]).toEqual(["**/dist"]);
+	});
+});
+
+describe("discoverTargets sizes", () => {
+	test("skips measuring when sizes are disabled", async () => {
+		const { discoverTargets } = await importDiscovery("no-size");
+		globMock.mockImplementation(async () => ["node_modules"]);
+
+		const { targets } = await discoverTargets({
+			rootDir: "/ws",
+			config: { sizeMode: "none" },
+		});
+
+		expect(getFolderSizeMock).not.toHaveBeenCalled();
+		expect(targets).toEqual([
+			expect.objectContaining({
+				path: "node_modules",
+				size: 0,
+				sizeMode: "none",
+			}),
+		]);
+	});
+
+	test("rejects size filters when sizes are disabled", async () => {
+		const { discoverTargets } = await importDiscovery("no-size-filter");
+
+		await expect(
+			discoverTargets({
+				rootDir: "/ws",
+				config: {},
+				sizeMode: "none",
+				free: "10GB",
+			}),
+		).rejects.toThrow("need target sizes");
+		expect(globMock).not.toHaveBeenCalled();
+	});
+});
+
+describe("discoverTargets safety", () => {
+	test("skips targets resolving outside the project", async () => {
+		const { discoverTargets } = await importDiscovery("symlinks");
+		globMock.mockImplementation(async () => ["dist", "node_modules"]);
+		realPaths.set("/ws", "/ws");
+		realPaths.set("/ws/dist", "/shared/dist");
+		realPaths.set("/ws/node_modules", "/ws/node_modules");
+
+		const { targets, skipped } = await discoverTargets({
+			rootDir: "/ws",
+			config: {},
+		});
+
+		expect(targets.map((t: { path: string }) => t.path)).toEqual([
+			"node_modules",
+		]);
+		expect(skipped).toEqual([
+			{ path: "dist", reason: "resolves to /shared/dist, outside the project" },
+		]);
+	});
+
+	test("keeps what the protect list covers", async () => {
+		const { discoverTargets } = await importDiscovery("protect");
+		globMock.mockImplementation(async () => ["dist", "node_modules", ".next"]);
+
+		const { targets, skipped } = await discoverTargets({
+			rootDir: "/ws",
+			config: { protect: ["/ws/node_modules/local-pkg", "dist"] },
+		});
+
+		expect(targets.map((t: { path: string }) => t.path)).toEqual([".next"]);
+		expect(skipped).toEqual([
+			{ path: "dist", reason: "protected by the protect list" },
+			{ path: "node_modules", reason: "protected by the protect list" },
+		]);
+	});
+});
+
+describe("discoverTargets with plugins", () => {
+	test("searches plugin targets and skips what plugins filter out", async () => {
+		const { discoverTargets } = await importDiscovery("plugins");
+		globMock.mockImplementation(async () => [
+			"node_modules",
+			".gradle",
+			"app/.gradle",
+		]);
+
+		const { targets, skipped } = await discoverTargets({
+			rootDir: "/ws",
+			config: {
+				targets: ["node_modules"],
+				plugins: [
+					{ name: "gradle", targets: () => [".gradle"] },
+					{
+						name: "keep-app",
+						filter: ({ path }: { path: string }) =>
+							path.startsWith("app/") ? "app is still building" : null,
+					},
+				],
+			},
+		});
+
+		expect(globMock.mock.calls[0]?.[0]).toEqual([
+			"**/node_modules",
+			"**/.gradle",
+		]);
+		expect(targets.map((t: { path: string }) => t.path).sort()).toEqual([
+			".gradle",
+			"node_modules",
+		]);
+		expect(skipped).toEqual([
+			{ path: "app/.gradle", reason: "app is still building" },
+		]);
+	});
+});
+
+describe("discoverTargets with git", () => {
+	test("skips targets containing tracked files in git-safe mode", async () => {
+		const { discoverTargets } = await importDiscovery("git-safe");
+		globMock.mockImplementation(async () => ["build", "node_modules"]);
+		execaMock.mockImplementation(async () => ({ stdout: "build/index.ts\0" }));
+
+		const { targets, skipped } = await discoverTargets({
+			rootDir: "/proj",
+			config: {},
+			gitSafe: true,
+		});
+
+		expect(targets.map((t: { path: string }) => t.path)).toEqual([
+			"node_modules",
+		]);
+		expect(skipped).toEqual([
+			{ path: "build", reason: "contains files tracked by git" },
+		]);
+	});
+
+	test("finds candidates from .gitignore rules in gitignored mode", async () => {
+		const { discoverTargets } = await importDiscovery("gitignored");
+		dirEntries.set("/proj", ["build/", "out/", "src/", ".env"]);
+		dirEntries.set("/proj/src", ["index.ts"]);
+		fileContents.set("/proj/.gitignore", "build/\nout/\n.env\n");
+		execaMock.mockImplementation(async () => ({ stdout: "build/index.ts\0" }));
+
+		const { targets, skipped } = await discoverTargets({
+			rootDir: "/proj",
+			config: { targets: ["src"], ignore: ["out/**"] },
+			gitignored: true,
+		});
+
+		expect(globMock).not.toHaveBeenCalled();
+		expect(targets).toEqual([]);
+		expect(skipped.map((s: { path: string }) => s.path)).toEqual(["build"]);
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError, GuardrailError, HookError } from "../src/errors";
+import {
+	EXIT_CODES,
+	getErrorExitCode,
+	getResultExitCode,
+} from "../src/exit-codes";
+import type { CleanResult } from "../src/index";
+
+const result = (overrides: Partial<CleanResult> = {}): CleanResult => ({
+	status: "cleaned",
+	targets: [],
+	deleted: [],
+	errors: [],
+	freedBytes: 0,
+	elapsedTime: 0,
+	...overrides,
+});
+
+describe("getResultExitCode", () => {
+	test("succeeds for clean, dry-run and empty runs", () => {
+		expect(getResultExitCode(result())).toBe(EXIT_CODES.success);
+		expect(getResultExitCode(result({ status: "dry-run" }))).toBe(0);
+		expect(getResultExitCode(result({ status: "nothing-to-clean" }))).toBe(0);
+	});
+
+	test("reports partial failures before anything else", () => {
+		const code = getResultExitCode(
+			result({
+				errors: [{ path: "dist", message: "EPERM" }],
+				reinstall: { status: "skipped" },
+			}),
+		);
+
+		expect(code).toBe(EXIT_CODES.partialFailure);
+	});
+
+	test("reports cancellations and failed reinstalls", () => {
+		expect(getResultExitCode(result({ status: "cancelled" }))).toBe(
+			EXIT_CODES.cancelled,
+		);
+		expect(
+			getResultExitCode(
+				result({ reinstall: { packageManager: "npm", status: "failed" } }),
+			),
+		).toBe(EXIT_CODES.reinstallFailed);
+	});
+});
+
+describe("getErrorExitCode", () => {
+	test("maps hook, config and guardrail errors", () => {
+		expect(getErrorExitCode(new HookError("preClean", "x"))).toBe(
+			EXIT_CODES.preHookFailed,
+		);
+		expect(getErrorExitCode(new HookError("postClean", "x"))).toBe(
+			EXIT_CODES.postHookFailed,
+		);
+		expect(getErrorExitCode(new HookError("postReinstall", "x"))).toBe(
+			EXIT_CODES.postHookFailed,
+		);
+		expect(getErrorExitCode(new ConfigError("x"))).toBe(
+			EXIT_CODES.configInvalid,
+		);
+		expect(getErrorExitCode(new GuardrailError("x"))).toBe(
+			EXIT_CODES.unsafeRoot,
+		);
+	});
+
+	test("falls back to 1 for anything else", () => {
+		expect(getErrorExitCode(new Error("boom"))).toBe(EXIT_CODES.error);
+		expect(getErrorExitCode("boom")).toBe(EXIT_CODES.error);
+	});
+});
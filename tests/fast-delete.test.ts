@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+type IgnoreOptions = {
+	childrenIgnored: (path: {
+		name: string;
+		parent?: { name: string };
+	}) => boolean;
+};
+
+const renameMock = mock(async (_from: string, _to: string) => {});
+const globMock = mock(
+	async (
+		_pattern: string,
+		_opts: { ignore: IgnoreOptions },
+	): Promise<string[]> => [],
+);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	rename: renameMock,
+}));
+mock.module("glob", () => ({ glob: globMock }));
+
+const importFastDelete = async (suffix: string = String(Math.random())) =>
+	await import(`../src/fast-delete?${suffix}`);
+
+beforeEach(() => {
+	renameMock.mockClear();
+	globMock.mockReset();
+	globMock.mockImplementation(async () => []);
+});
+
+describe("moveAside", () => {
+	test("renames the target to a unique hidden sibling", async () => {
+		const { moveAside } = await importFastDelete("move");
+
+		const first = await moveAside("/proj/apps/web/dist");
+		const second = await moveAside("/proj/apps/web/dist");
+
+		expect(first).toMatch(/^\/proj\/apps\/web\/\.purgo-trash-[\w-]+-dist$/);
+		expect(second).not.toBe(first);
+		expect(renameMock).toHaveBeenCalledWith("/proj/apps/web/dist", first);
+	});
+});
+
+describe("findFastTrash", () => {
+	test("returns absolute paths of the leftovers", async () => {
+		const { findFastTrash } = await importFastDelete("find");
+		globMock.mockImplementation(async () => [
+			".purgo-trash-a-dist",
+			"node_modules/.purgo-trash-b-.vite",
+		]);
+
+		const leftovers = await findFastTrash("/proj");
+
+		expect(leftovers).toEqual([
+			"/proj/.purgo-trash-a-dist",
+			"/proj/node_modules/.purgo-trash-b-.vite",
+		]);
+		expect(globMock.mock.calls[0]?.[0]).toBe("**/.purgo-trash-*");
+	});
+
+	test("does not search inside leftovers, .git or installed packages", async () => {
+		const { findFastTrash } = await importFastDelete("ignore");
+
+		await findFastTrash("/proj");
+
+		const { childrenIgnored } = globMock.mock.calls[0]?.[1].ignore ?? {
+			childrenIgnored: () => false,
+		};
+		expect(childrenIgnored({ name: ".purgo-trash-a-dist" })).toBe(true);
+		expect(childrenIgnored({ name: ".git" })).toBe(true);
+		expect(
+			childrenIgnored({ name: "react", parent: { name: "node_modules" } }),
+		).toBe(true);
+		expect(childrenIgnored({ name: "node_modules" })).toBe(false);
+		expect(childrenIgnored({ name: "packages" })).toBe(false);
+	});
+});
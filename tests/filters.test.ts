@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+import * as v from "valibot";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const day = 24 * 60 * 60 * 1000;
+const statResults = new Map<string, { mtime: Date; atime: Date }>();
+
+const statMock = mock(async (p: string) => {
+	const stats = statResults.get(p);
+	if (!stats) throw new Error(`ENOENT: ${p}`);
+	return stats;
+});
+const execaMock = mock(
+	async (_cmd: string, _args: string[], _opts: { cwd: string }) => ({
+		stdout: "",
+	}),
+);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	stat: statMock,
+}));
+mock.module("execa", () => ({ execa: execaMock }));
+
+const importFilters = async (suffix: string = String(Math.random())) =>
+	await import(`../src/filters?${suffix}`);
+
+beforeEach(() => {
+	statResults.clear();
+	statMock.mockClear();
+	execaMock.mockReset();
+});
+
+describe("ActivityTracker", () => {
+	test("uses the mtime, not an atime refreshed by the search", async () => {
+		const { ActivityTracker } = await importFilters("stat");
+		statResults.set("/proj/dist", {
+			mtime: new Date(10 * day),
+			atime: new Date(12 * day),
+		});
+
+		const tracker = new ActivityTracker();
+
+		expect(await tracker.getLastActivity("/proj/dist")).toEqual(
+			new Date(10 * day),
+		);
+		expect(execaMock).not.toHaveBeenCalled();
+	});
+
+	test("returns undefined when the target cannot be inspected", async () => {
+		const { ActivityTracker } = await importFilters("missing");
+
+		expect(
+			await new ActivityTracker().getLastActivity("/nope"),
+		).toBeUndefined();
+	});
+
+	test("counts the last git commit once per directory", async () => {
+		const { ActivityTracker } = await importFilters("git");
+		statResults.set("/proj/a", { mtime: new Date(day), atime: new Date(day) });
+		statResults.set("/proj/b", { mtime: new Date(day), atime: new Date(day) });
+		execaMock.mockImplementation(async () => ({
+			stdout: String((20 * day) / 1000),
+		}));
+
+		const tracker = new ActivityTracker(true);
+		const [a, b] = await Promise.all([
+			tracker.getLastActivity("/proj/a"),
+			tracker.getLastActivity("/proj/b"),
+		]);
+
+		expect(a).toEqual(new Date(20 * day));
+		expect(b).toEqual(new Date(20 * day));
+		expect(execaMock).toHaveBeenCalledTimes(1);
+		expect(execaMock.mock.calls[0]?.[2]).toEqual({ cwd: "/proj" });
+	});
+
+	test("ignores git outside a repository", async () => {
+		const { ActivityTracker } = await importFilters("no-git");
+		statResults.set("/tmp/x", { mtime: new Date(day), atime: new Date(day) });
+		execaMock.mockImplementation(async () => {
+			throw new Error("not a git repository");
+		});
+
+		expect(await new ActivityTracker(true).getLastActivity("/tmp/x")).toEqual(
+			new Date(day),
+		);
+	});
+});
+
+describe("isOlderThan", () => {
+	test("compares the elapsed time with the minimum age", async () => {
+		const { isOlderThan } = await importFilters("older");
+		const now = new Date(30 * day);
+
+		expect(isOlderThan(new Date(20 * day), 7 * day, now)).toBe(true);
+		expect(isOlderThan(new Date(25 * day), 7 * day, now)).toBe(false);
+		expect(isOlderThan(undefined, 0, now)).toBe(false);
+	});
+});
+
+describe("durationSchema", () => {
+	test("accepts durations and day counts, rejects the rest", async () => {
+		const { durationSchema } = await importFilters("schema");
+
+		expect(v.safeParse(durationSchema, "2w").success).toBe(true);
+		expect(v.safeParse(durationSchema, 30).success).toBe(true);
+		expect(v.safeParse(durationSchema, "soon").success).toBe(false);
+		expect(v.safeParse(durationSchema, -1).success).toBe(false);
+	});
+});
+
+describe("selectBySize", () => {
+	const targets = [
+		{ path: "small", size: 10 },
+		{ path: "big", size: 500 },
+		{ path: "medium-new", size: 100, lastActivity: new Date(20 * day) },
+		{ path: "medium-old", size: 100, lastActivity: new Date(10 * day) },
+	];
+
+	test("keeps everything without rules", async () => {
+		const { selectBySize } = await importFilters("size-none");
+
+		const { selected, skipped } = selectBySize(targets, {});
+
+		expect(selected).toEqual(targets);
+		expect(skipped).toEqual([]);
+	});
+
+	test("skips targets below the minimum size", async () => {
+		const { selectBySize } = await importFilters("size-min");
+
+		const { selected, skipped } = selectBySize(targets, { minSize: 100 });
+
+		expect(selected.map((t: { path: string }) => t.path)).toEqual([
+			"big",
+			"medium-new",
+			"medium-old",
+		]);
+		expect(skipped.map((s: { path: string }) => s.path)).toEqual(["small"]);
+	});
+
+	test("picks the largest, then oldest, targets until the goal is reached", async () => {
+		const { selectBySize } = await importFilters("size-free");
+
+		const { selected, skipped } = selectBySize(targets, { free: 550 });
+
+		expect(selected.map((t: { path: string }) => t.path)).toEqual([
+			"big",
+			"medium-old",
+		]);
+		expect(skipped.map((s: { reason: string }) => s.reason)).toEqual([
+			"goal of 550 B already reached",
+			"goal of 550 B already reached",
+		]);
+	});
+
+	test("never exceeds the maximum total", async () => {
+		const { selectBySize } = await importFilters("size-max");
+
+		const { selected } = selectBySize(targets, { maxTotal: 250 });
+
+		expect(selected.map((t: { path: string }) => t.path)).toEqual([
+			"small",
+			"medium-new",
+			"medium-old",
+		]);
+	});
+});
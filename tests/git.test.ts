@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+
+const execaMock = mock(
+	async (_cmd: string, _args: string[], _opts: { cwd: string }) => ({
+		stdout: "",
+	}),
+);
+
+mock.module("execa", () => ({ execa: execaMock }));
+
+const importGit = async (suffix: string = String(Math.random())) =>
+	await import(`../src/git?${suffix}`);
+
+beforeEach(() => {
+	execaMock.mockReset();
+});
+
+describe("findTrackedPaths", () => {
+	test("returns the paths containing tracked files", async () => {
+		const { findTrackedPaths } = await importGit("tracked");
+		execaMock.mockImplementationOnce(async () => ({
+			stdout: "build/index.ts\0build/util.ts\0dist-notes.md\0",
+		}));
+
+		const tracked = await findTrackedPaths("/proj", ["build", "dist", "out"]);
+
+		expect([...tracked]).toEqual(["build"]);
+		expect(execaMock.mock.calls[0]?.[1]).toEqual([
+			"--literal-pathspecs",
+			"ls-files",
+			"-z",
+			"--",
+			"build",
+			"dist",
+			"out",
+		]);
+		expect(execaMock.mock.calls[0]?.[2]).toEqual({ cwd: "/proj" });
+	});
+
+	test("treats a directory outside a repository as untracked", async () => {
+		const { findTrackedPaths } = await importGit("no-repo");
+		execaMock.mockImplementationOnce(async () => {
+			throw Object.assign(new Error("git failed"), {
+				stderr:
+					"fatal: not a git repository (or any of the parent directories)",
+			});
+		});
+
+		expect((await findTrackedPaths("/tmp", ["dist"])).size).toBe(0);
+	});
+
+	test("throws when git cannot be run, instead of assuming nothing is tracked", async () => {
+		const { findTrackedPaths } = await importGit("no-git");
+		execaMock.mockImplementationOnce(async () => {
+			throw new Error("spawn git ENOENT");
+		});
+
+		await expect(findTrackedPaths("/proj", ["dist"])).rejects.toThrow(
+			"Could not list the files tracked by git",
+		);
+	});
+
+	test("skips git when there is nothing to check", async () => {
+		const { findTrackedPaths } = await importGit("empty");
+
+		expect((await findTrackedPaths("/proj", [])).size).toBe(0);
+		expect(execaMock).not.toHaveBeenCalled();
+	});
+});
+
+describe("findDirtyPaths", () => {
+	const mockGit = (prefix: string, porcelain: string) =>
+		execaMock.mockImplementation(async (_cmd: string, args: string[]) => ({
+			stdout: args[0] === "rev-parse" ? prefix : porcelain,
+		}));
+
+	test("maps porcelain paths from the repository root back to cwd", async () => {
+		const { findDirtyPaths } = await importGit("dirty-prefix");
+		mockGit("apps/web/", " M apps/web/dist/a.js\0?? apps/web/out/\0");
+
+		const dirty = await findDirtyPaths("/repo/apps/web", [
+			"dist",
+			"out",
+			"node_modules",
+		]);
+
+		expect([...dirty]).toEqual(["dist", "out"]);
+	});
+
+	test("flags targets inside an untracked directory and skips rename sources", async () => {
+		const { findDirtyPaths } = await importGit("dirty-rename");
+		mockGit("", "?? generated/\0R  lib/new.js\0build/old.js\0");
+
+		const dirty = await findDirtyPaths("/repo", [
+			"generated/cache",
+			"build",
+			"lib",
+		]);
+
+		expect([...dirty]).toEqual(["generated/cache", "lib"]);
+	});
+
+	test("reports nothing when git is unavailable", async () => {
+		const { findDirtyPaths } = await importGit("dirty-no-git");
+		execaMock.mockImplementation(async () => {
+			throw new Error("spawn git ENOENT");
+		});
+
+		expect((await findDirtyPaths("/repo", ["dist"])).size).toBe(0);
+	});
+});
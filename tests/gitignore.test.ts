@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+// Directory path -> entries; a trailing slash marks a directory
+const tree = new Map<string, string[]>();
+const files = new Map<string, string>();
+
+const norm = (p: string) => p.replace(/\\/g, "/").replace(/\/$/, "");
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		const content = files.get(norm(p));
+		if (content === undefined) throw new Error(`ENOENT: ${p}`);
+		return content;
+	},
+	readdir: async (p: string, _opts?: unknown) => {
+		const entries = tree.get(norm(p));
+		if (!entries) throw new Error(`ENOENT: ${p}`);
+		return entries.map((entry) => ({
+			name: entry.replace(/\/$/, ""),
+			isDirectory: () => entry.endsWith("/"),
+		}));
+	},
+}));
+
+const importGitignore = async (suffix: string = String(Math.random())) =>
+	await import(`../src/gitignore?${suffix}`);
+
+beforeEach(() => {
+	tree.clear();
+	files.clear();
+});
+
+describe("parseGitignore / isGitignored", () => {
+	test("matches unanchored patterns at any depth", async () => {
+		const { parseGitignore, isGitignored } = await importGitignore("any");
+		const rules = parseGitignore("# build output\nbuild/\n*.log\n");
+
+		expect(isGitignored("build", true, rules)).toBe(true);
+		expect(isGitignored("packages/ui/build", true, rules)).toBe(true);
+		expect(isGitignored("logs/debug.log", false, rules)).toBe(true);
+		// Directory-only rule
+		expect(isGitignored("build", false, rules)).toBe(false);
+	});
+
+	test("anchors patterns containing a slash to their directory", async () => {
+		const { parseGitignore, isGitignored } = await importGitignore("anchor");
+		const rules = [
+			...parseGitignore("/dist\n"),
+			...parseGitignore("out/cache\n", "packages/ui"),
+		];
+
+		expect(isGitignored("dist", true, rules)).toBe(true);
+		expect(isGitignored("src/dist", true, rules)).toBe(false);
+		expect(isGitignored("packages/ui/out/cache", true, rules)).toBe(true);
+		expect(isGitignored("out/cache", true, rules)).toBe(false);
+	});
+
+	test("lets a later negation re-include a path", async () => {
+		const { parseGitignore, isGitignored } = await importGitignore("negate");
+		const rules = parseGitignore("*.json\n!package.json\n\\#notes\n");
+
+		expect(isGitignored("data.json", false, rules)).toBe(true);
+		expect(isGitignored("package.json", false, rules)).toBe(false);
+		expect(isGitignored("#notes", false, rules)).toBe(true);
+	});
+});
+
+describe("findGitignoredPaths", () => {
+	test("walks nested .gitignore files and stops at ignored directories", async () => {
+		const { findGitignoredPaths } = await importGitignore("walk");
+		tree.set("/proj", [".git/", ".env", "node_modules/", "src/", "pkg/"]);
+		tree.set("/proj/src", ["index.ts"]);
+		tree.set("/proj/pkg", ["tmp/", "keep/"]);
+		tree.set("/proj/pkg/keep", ["file"]);
+		files.set("/proj/.gitignore", "node_modules\n.env\n");
+		files.set("/proj/pkg/.gitignore", "tmp/\n");
+
+		expect(await findGitignoredPaths("/proj")).toEqual([
+			"node_modules",
+			"pkg/tmp",
+		]);
+	});
+});
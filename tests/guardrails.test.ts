@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	describeDangerousRoot,
+	describeExceededGuardrail,
+	resolveProtectedPaths,
+} from "../src/guardrails";
+
+const originalHome = process.env.HOME;
+
+beforeEach(() => {
+	process.env.HOME = "/home/alice";
+});
+
+afterEach(() => {
+	process.env.HOME = originalHome;
+});
+
+describe.skipIf(process.platform === "win32")("describeDangerousRoot", () => {
+	test("refuses the filesystem root, home and system directories", async () => {
+		expect(await describeDangerousRoot("/")).toBe("the filesystem root");
+		expect(await describeDangerousRoot("/home/alice")).toBe(
+			"your home directory",
+		);
+		expect(await describeDangerousRoot("/home")).toBe(
+			"the directory holding every home directory",
+		);
+		expect(await describeDangerousRoot("/usr/lib")).toBe("a system directory");
+		expect(await describeDangerousRoot("/var")).toBe("a system directory");
+	});
+
+	test("accepts projects, including those in container directories", async () => {
+		expect(await describeDangerousRoot("/home/alice/code/app")).toBeNull();
+		expect(await describeDangerousRoot("/var/www/site")).toBeNull();
+		expect(await describeDangerousRoot("/tmp/build")).toBeNull();
+	});
+});
+
+describe("describeExceededGuardrail", () => {
+	test("passes below the default ceilings", () => {
+		expect(describeExceededGuardrail(500, 50e9)).toBeNull();
+	});
+
+	test("describes the exceeded ceiling", () => {
+		expect(describeExceededGuardrail(501, 0)).toContain(
+			"501 targets, more than the guardrail of 500",
+		);
+		expect(describeExceededGuardrail(3, 2048, { maxSize: "1KB" })).toContain(
+			"more than the guardrail of",
+		);
+		expect(describeExceededGuardrail(3, 0, { maxTargets: 10 })).toBeNull();
+	});
+});
+
+describe.skipIf(process.platform === "win32")("resolveProtectedPaths", () => {
+	test("resolves home and project-relative entries", async () => {
+		expect(
+			await resolveProtectedPaths(
+				["~/work/keep", "vendor", "/srv/shared"],
+				"/home/alice/code/app",
+			),
+		).toEqual([
+			"/home/alice/work/keep",
+			"/home/alice/code/app/vendor",
+			"/srv/shared",
+		]);
+	});
+});
@@ -1,4 +1,8 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as os from "node:os";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualOs = { ...os };
 
 const execaMock = mock(async () => ({ exitCode: 0, stdout: "", stderr: "" }));
 mock.module("execa", () => ({ execa: execaMock }));
@@ -10,6 +14,7 @@ mock.module("chalk", () => ({ default: chalkMock }));
 
 let mockPlatform = "linux";
 mock.module("node:os", () => ({
+	...actualOs,
 	platform: () => mockPlatform,
 }));
 
@@ -72,7 +77,11 @@ describe("executeHook", () => {
 
 		expect(execaMock).toHaveBeenCalled();
 		const calls = execaMock.mock.calls as unknown as Array<unknown[]>;
-		expect(calls[0]?.[2]).toEqual({ cwd: "/my/project", stdio: "inherit" });
+		expect(calls[0]?.[2]).toEqual({
+			cwd: "/my/project",
+			env: { PURGO_HOOK: "preClean", PURGO_ROOT_DIR: "/my/project" },
+			stdio: "inherit",
+		});
 	});
 
 	test("logs hook start", async () => {
@@ -110,6 +119,20 @@ describe("executeHook", () => {
 		).rejects.toThrow();
 	});
 
+	test("throws a HookError carrying the hook name", async () => {
+		execaMock.mockImplementationOnce(async () => {
+			throw new Error("Command failed");
+		});
+		const { executeHook } = await importHooks("hook-error");
+
+		const error = await executeHook("exit 1", "postClean", "/project").catch(
+			(e: unknown) => e,
+		);
+
+		expect((error as Error).name).toBe("HookError");
+		expect((error as { hookName: string }).hookName).toBe("postClean");
+	});
+
 	test("logs error when command fails", async () => {
 		execaMock.mockImplementationOnce(async () => {
 			throw new Error("Command failed");
@@ -134,6 +157,150 @@ describe("executeHook", () => {
 		expect(third.stdio).toBe("inherit");
 	});
 
+	test("keeps stdout clean in silent mode", async () => {
+		const { executeHook } = await importHooks("silent");
+
+		await executeHook("echo output", "preClean", "/project", { silent: true });
+
+		const calls = execaMock.mock.calls as unknown as Array<unknown[]>;
+		const third = (calls[0]?.[2] ?? {}) as { stdout?: unknown };
+		expect(third.stdout).toBe(process.stderr);
+		expect(consoleOutput).toEqual([]);
+	});
+
+	test("runs a list of commands in order", async () => {
+		const { executeHook } = await importHooks("list");
+
+		await executeHook(["npm run a", "npm run b"], "postClean", "/project");
+
+		const calls = execaMock.mock.calls as unknown as Array<unknown[]>;
+		expect(calls.map((call) => (call[1] as string[])[1])).toEqual([
+			"npm run a",
+			"npm run b",
+		]);
+	});
+
+	test("stops at the first failing command", async () => {
+		execaMock.mockImplementationOnce(async () => {
+			throw new Error("Command failed");
+		});
+		const { executeHook } = await importHooks("list-fail");
+
+		await expect(
+			executeHook(["exit 1", "echo never"], "postClean", "/project"),
+		).rejects.toThrow('Hook "postClean" failed');
+		expect(execaMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("goes on after a failure with continueOnError", async () => {
+		execaMock.mockImplementationOnce(async () => {
+			throw new Error("Command failed");
+		});
+		const { executeHook } = await importHooks("continue");
+
+		await executeHook(
+			{ run: ["exit 1", "echo next"], continueOnError: true },
+			"onError",
+			"/project",
+		);
+
+		expect(execaMock).toHaveBeenCalledTimes(2);
+		expect(consoleOutput.some((line) => line.includes("ERROR:"))).toBe(true);
+		expect(consoleOutput.some((line) => line.includes("completed"))).toBe(
+			false,
+		);
+	});
+
+	test("applies the hook's cwd and timeout", async () => {
+		const { executeHook } = await importHooks("settings");
+
+		await executeHook(
+			{ run: "npm run codegen", cwd: "packages/api", timeout: "30s" },
+			"postReinstall",
+			"/project",
+		);
+
+		const calls = execaMock.mock.calls as unknown as Array<unknown[]>;
+		expect(calls[0]?.[2]).toMatchObject({
+			cwd: "/project/packages/api",
+			timeout: 30_000,
+			env: { PURGO_ROOT_DIR: "/project" },
+		});
+	});
+
+	test("exposes the cleanup through environment variables", async () => {
+		const { executeHook } = await importHooks("env");
+
+		await executeHook("notify", "postDelete", "/project", {
+			context: {
+				targets: [
+					{ path: "dist", size: 1024 },
+					{ path: "node_modules", size: 1024 },
+				],
+				freedBytes: 2048,
+				errors: [],
+				target: {
+					path: "dist",
+					absolutePath: "/project/dist",
+					size: 1024,
+				},
+			},
+		});
+
+		const calls = execaMock.mock.calls as unknown as Array<unknown[]>;
+		const { env } = calls[0]?.[2] as { env: Record<string, string> };
+		expect(env).toEqual({
+			PURGO_HOOK: "postDelete",
+			PURGO_ROOT_DIR: "/project",
+			PURGO_TARGETS: "dist\nnode_modules",
+			PURGO_TARGET_COUNT: "2",
+			PURGO_FREED_BYTES: "2048",
+			PURGO_ERROR_COUNT: "0",
+			PURGO_TARGET: "dist",
+			PURGO_TARGET_PATH: "/project/dist",
+			PURGO_TARGET_SIZE: "1024",
+		});
+	});
+
+	test("calls function hooks with the context", async () => {
+		const { executeHook } = await importHooks("function");
+		const hook = mock(async () => {});
+
+		const proceed = await executeHook(hook, "postClean", "/project", {
+			context: { deleted: ["dist"], freedBytes: 1024 },
+		});
+
+		expect(proceed).toBe(true);
+		expect(execaMock).not.toHaveBeenCalled();
+		expect(hook).toHaveBeenCalledWith({
+			hook: "postClean",
+			rootDir: "/project",
+			deleted: ["dist"],
+			freedBytes: 1024,
+		});
+	});
+
+	test("tells when a function hook returns false", async () => {
+		const { executeHook } = await importHooks("function-veto");
+
+		expect(await executeHook(() => false, "preDelete", "/project")).toBe(false);
+	});
+
+	test("throws a HookError when a function hook throws", async () => {
+		const { executeHook } = await importHooks("function-error");
+
+		const error = await executeHook(
+			async () => {
+				throw new Error("webhook unreachable");
+			},
+			"postClean",
+			"/project",
+		).catch((e: unknown) => e);
+
+		expect((error as Error).name).toBe("HookError");
+		expect((error as Error).message).toContain("webhook unreachable");
+	});
+
 	test("detects Darwin (macOS) as Unix", async () => {
 		mockPlatform = "darwin";
 		const { executeHook } = await importHooks("mac");
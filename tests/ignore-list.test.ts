@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fs from "node:fs";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFs = { ...fs };
+const actualFsPromises = { ...fsPromises };
+
+const files = new Map<string, string>();
+let searchResult: { filepath: string } | null = null;
+
+const writeFileMock = mock(async (p: string, data: string, _enc?: unknown) => {
+	files.set(p, data);
+});
+
+mock.module("node:fs", () => ({
+	...actualFs,
+	existsSync: (p: string) => files.has(p),
+}));
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		const content = files.get(p);
+		if (content === undefined) throw new Error(`ENOENT: ${p}`);
+		return content;
+	},
+	writeFile: writeFileMock,
+}));
+mock.module("cosmiconfig", () => ({
+	cosmiconfig: () => ({ search: async () => searchResult }),
+}));
+
+const importIgnoreList = async (suffix: string = String(Math.random())) =>
+	await import(`../src/ignore-list?${suffix}`);
+
+const readJson = (p: string) => JSON.parse(files.get(p) ?? "null");
+
+beforeEach(() => {
+	files.clear();
+	searchResult = null;
+	writeFileMock.mockClear();
+});
+
+describe("addToIgnoreList", () => {
+	test("appends to the purgo field of package.json without duplicates", async () => {
+		const { addToIgnoreList } = await importIgnoreList("pkg");
+		files.set(
+			"/proj/package.json",
+			JSON.stringify({ name: "app", purgo: { ignore: ["a/**"] } }),
+		);
+
+		const written = await addToIgnoreList("/proj", ["a/**", "b/**"]);
+
+		expect(written).toBe("/proj/package.json");
+		expect(readJson("/proj/package.json")).toEqual({
+			name: "app",
+			purgo: { ignore: ["a/**", "b/**"] },
+		});
+	});
+
+	test("updates the project's .purgorc.json", async () => {
+		const { addToIgnoreList } = await importIgnoreList("rc");
+		files.set("/proj/package.json", JSON.stringify({ name: "app" }));
+		files.set("/proj/.purgorc.json", JSON.stringify({ targets: ["dist"] }));
+		searchResult = { filepath: "/proj/.purgorc.json" };
+
+		await addToIgnoreList("/proj", ["dist/**"]);
+
+		expect(readJson("/proj/.purgorc.json")).toEqual({
+			targets: ["dist"],
+			ignore: ["dist/**"],
+		});
+		expect(readJson("/proj/package.json")).toEqual({ name: "app" });
+	});
+
+	test("refuses to rewrite non-JSON configuration files", async () => {
+		const { addToIgnoreList } = await importIgnoreList("yaml");
+		searchResult = { filepath: "/proj/.purgorc.yaml" };
+
+		await expect(addToIgnoreList("/proj", ["dist/**"])).rejects.toThrow(
+			"Cannot update /proj/.purgorc.yaml automatically",
+		);
+		expect(writeFileMock).not.toHaveBeenCalled();
+	});
+
+	test("creates .purgorc.json extending a parent configuration", async () => {
+		const { addToIgnoreList } = await importIgnoreList("create");
+		searchResult = { filepath: "/.purgorc.json" };
+
+		const written = await addToIgnoreList("/proj", ["dist/**"]);
+
+		expect(written).toBe("/proj/.purgorc.json");
+		expect(readJson("/proj/.purgorc.json")).toEqual({
+			ignore: ["dist/**"],
+			extends: "../.purgorc.json",
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+
+const spinnerInstance = {
+	text: "",
+	stop: mock(() => spinnerInstance),
+	succeed: mock(() => spinnerInstance),
+	fail: mock(() => spinnerInstance),
+	start: mock(() => spinnerInstance),
+};
+
+const oraMock = mock((_options?: unknown) => spinnerInstance);
+const chalkMock = new Proxy(
+	{},
+	{
+		get: () => (v: unknown) => String(v),
+	},
+);
+
+mock.module("ora", () => ({ default: oraMock }));
+mock.module("chalk", () => ({ default: chalkMock }));
+mock.module("boxen", () => ({ default: (s: string) => s }));
+mock.module("pretty-bytes", () => ({ default: (n: number) => `${n} B` }));
+
+let consoleOutput: string[] = [];
+const originalLog = console.log;
+
+beforeEach(() => {
+	consoleOutput = [];
+	console.log = mock((...args: unknown[]) => {
+		consoleOutput.push(args.join(" "));
+	});
+	oraMock.mockClear();
+});
+
+afterEach(() => {
+	console.log = originalLog;
+});
+
+const importReporter = async (suffix: string = String(Math.random())) =>
+	await import(`../src/json-reporter?${suffix}`);
+
+describe("JsonReporter", () => {
+	test("prints nothing until finish", async () => {
+		const { JsonReporter } = await importReporter("silent");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.startSearching();
+		reporter.showForceMode();
+		reporter.showTargets([{ path: "dist", size: 10 }]);
+		reporter.startProgress(1);
+		reporter.stopProgress();
+
+		expect(consoleOutput).toEqual([]);
+		expect(oraMock).not.toHaveBeenCalled();
+	});
+
+	test("collects targets, results and freed bytes", async () => {
+		const { JsonReporter } = await importReporter("collect");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.showForceMode();
+		reporter.showTargets([
+			{ path: "dist", size: 10 },
+			{ path: "node_modules", size: 30 },
+		]);
+		reporter.startProgress(2);
+		reporter.showItemResult({ path: "dist", size: 10, status: "deleted" });
+		reporter.showItemResult({
+			path: "node_modules",
+			size: 30,
+			status: "failed",
+			error: "EPERM",
+		});
+		reporter.showSummary({
+			deletedCount: 1,
+			totalSize: 10,
+			errorCount: 1,
+			errors: [{ path: "node_modules", message: "EPERM" }],
+		});
+
+		const report = reporter.getReport();
+
+		expect(report).toMatchObject({
+			version: 1,
+			rootDir: "/proj",
+			action: "delete",
+			force: true,
+			totalSize: 40,
+			freedBytes: 10,
+			errors: [{ path: "node_modules", message: "EPERM" }],
+		});
+		expect(report.results).toHaveLength(2);
+	});
+
+	test("records the trash destination as a trash action", async () => {
+		const { JsonReporter } = await importReporter("trash");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.showTrashLocation("/data/trash/run");
+		reporter.startProgress(2);
+
+		const report = reporter.getReport();
+		expect(report.action).toBe("trash");
+		expect(report.trashDir).toBe("/data/trash/run");
+	});
+
+	test("records dry runs and skipped reinstalls", async () => {
+		const { JsonReporter } = await importReporter("dry");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.showDryRunNotice();
+		reporter.showReinstallSkipped("No lockfile found");
+
+		const report = reporter.getReport();
+		expect(report.action).toBe("dry-run");
+		expect(report.reinstall).toEqual({
+			status: "skipped",
+			message: "No lockfile found",
+		});
+	});
+
+	test("records the error that stopped the run", async () => {
+		const { JsonReporter } = await importReporter("error");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.showError(new Error("postClean hook failed"));
+
+		expect(reporter.getReport().error).toBe("postClean hook failed");
+	});
+
+	test("finish prints a single JSON document", async () => {
+		const { JsonReporter } = await importReporter("finish");
+		const reporter = new JsonReporter("/proj");
+
+		reporter.showNothingToClean();
+		reporter.finish();
+
+		expect(consoleOutput).toHaveLength(1);
+		const parsed = JSON.parse(consoleOutput[0] ?? "");
+		expect(parsed.action).toBe("none");
+		expect(parsed.targets).toEqual([]);
+	});
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const existing = new Set<string>();
+const sizes = new Map<string, number>();
+
+const execaMock = mock(
+	async (_cmd: string, _args: string[], _opts: unknown) => ({ stdout: "" }),
+);
+const getFolderSizeMock = mock(async (p: string) => ({
+	size: sizes.get(p) ?? 0,
+	errors: null,
+}));
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	access: async (p: string) => {
+		if (!existing.has(p)) throw new Error(`ENOENT: ${p}`);
+	},
+}));
+mock.module("execa", () => ({ execa: execaMock }));
+mock.module("get-folder-size", () => ({ default: getFolderSizeMock }));
+
+const importPackageCaches = async (suffix: string = String(Math.random())) =>
+	await import(`../src/package-caches?${suffix}`);
+
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+	existing.clear();
+	sizes.clear();
+	execaMock.mockReset();
+	execaMock.mockImplementation(async () => ({ stdout: "" }));
+	getFolderSizeMock.mockClear();
+	process.env.HOME = "/home/me";
+	delete process.env.BUN_INSTALL;
+	delete process.env.BUN_INSTALL_CACHE_DIR;
+});
+
+afterEach(() => {
+	process.env = { ...originalEnv };
+});
+
+describe("locatePackageCache", () => {
+	test("asks the package manager for its cache", async () => {
+		const { locatePackageCache } = await importPackageCaches("ask");
+		execaMock.mockImplementation(async (cmd: string) => ({
+			stdout: cmd === "pnpm" ? "/home/me/.local/share/pnpm/store/v10\n" : "",
+		}));
+
+		expect(await locatePackageCache("pnpm", "/proj")).toBe(
+			"/home/me/.local/share/pnpm/store/v10",
+		);
+		expect(execaMock).toHaveBeenCalledWith("pnpm", ["store", "path"], {
+			cwd: "/proj",
+		});
+	});
+
+	test("falls back to Yarn Classic when cacheFolder is unknown", async () => {
+		const { locatePackageCache } = await importPackageCaches("yarn");
+		execaMock.mockImplementation(async (_cmd: string, args: string[]) => ({
+			stdout: args[0] === "config" ? "undefined" : "/home/me/.cache/yarn/v6",
+		}));
+
+		expect(await locatePackageCache("yarn")).toBe("/home/me/.cache/yarn/v6");
+	});
+
+	test("uses default locations when the manager cannot tell", async () => {
+		const { locatePackageCache } = await importPackageCaches("defaults");
+		execaMock.mockImplementation(async () => {
+			throw new Error("ENOENT");
+		});
+
+		expect(await locatePackageCache("npm")).toBe("/home/me/.npm");
+		expect(await locatePackageCache("bun")).toBe("/home/me/.bun/install/cache");
+		expect(await locatePackageCache("pnpm")).toBeNull();
+
+		process.env.BUN_INSTALL_CACHE_DIR = "/cache/bun";
+		expect(await locatePackageCache("bun")).toBe("/cache/bun");
+	});
+});
+
+describe("findPackageCaches", () => {
+	test("measures the caches that exist", async () => {
+		const { findPackageCaches } = await importPackageCaches("find");
+		existing.add("/home/me/.bun/install/cache");
+		sizes.set("/home/me/.bun/install/cache", 4096);
+
+		expect(await findPackageCaches(["npm", "bun"])).toEqual([
+			{
+				manager: "bun",
+				path: "/home/me/.bun/install/cache",
+				size: 4096,
+				action: "clear",
+			},
+		]);
+	});
+});
+
+describe("prunePackageCache", () => {
+	const cache = { manager: "pnpm", path: "/store", size: 1000 };
+
+	test("runs the manager's prune command and measures what was freed", async () => {
+		const { prunePackageCache } = await importPackageCaches("prune");
+		existing.add("/store");
+		sizes.set("/store", 400);
+
+		expect(await prunePackageCache(cache, "/proj")).toEqual({
+			manager: "pnpm",
+			freedBytes: 600,
+		});
+		expect(execaMock).toHaveBeenCalledWith("pnpm", ["store", "prune"], {
+			cwd: "/proj",
+		});
+	});
+
+	test("reports a failing command instead of throwing", async () => {
+		const { prunePackageCache } = await importPackageCaches("prune-fail");
+		execaMock.mockImplementation(async () => {
+			throw new Error("command not found");
+		});
+
+		expect(await prunePackageCache(cache)).toEqual({
+			manager: "pnpm",
+			freedBytes: 0,
+			error: "pnpm store prune failed: command not found",
+		});
+	});
+});
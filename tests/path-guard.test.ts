@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const realPaths = new Map<string, string>();
+const devices = new Map<string, number>();
+const symlinks = new Set<string>();
+let mountinfo = "";
+
+const enoent = (p: string) => new Error(`ENOENT: ${p}`);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	realpath: async (p: string) => {
+		const real = realPaths.get(p);
+		if (!real) throw enoent(p);
+		return real;
+	},
+	stat: async (p: string) => ({ dev: devices.get(p) ?? 1 }),
+	lstat: async (p: string) => ({ isSymbolicLink: () => symlinks.has(p) }),
+	readFile: async (p: string) => {
+		if (p !== "/proc/self/mountinfo") throw enoent(p);
+		return mountinfo;
+	},
+}));
+
+const importPathGuard = async (suffix: string = String(Math.random())) =>
+	await import(`../src/path-guard?${suffix}`);
+
+const mountLine = (mountPoint: string) =>
+	`36 35 98:0 / ${mountPoint} rw,noatime - ext4 /dev/sdb1 rw`;
+
+beforeEach(() => {
+	realPaths.clear();
+	devices.clear();
+	symlinks.clear();
+	mountinfo = [mountLine("/"), mountLine("/proj")].join("\n");
+	realPaths.set("/proj", "/proj");
+});
+
+describe("PathGuard", () => {
+	test("keeps targets whose real path is inside the project", async () => {
+		const { PathGuard } = await importPathGuard("inside");
+		realPaths.set("/proj/node_modules", "/proj/node_modules");
+		// A link to another target of the project is fine
+		realPaths.set("/proj/out", "/proj/build");
+
+		const guard = await PathGuard.create("/proj");
+
+		expect(await guard.check("/proj/node_modules")).toBeNull();
+		expect(await guard.check("/proj/out")).toBeNull();
+		expect(await guard.check("/proj/missing")).toBeNull();
+	});
+
+	test("rejects symlinks resolving outside the project", async () => {
+		const { PathGuard } = await importPathGuard("symlink");
+		realPaths.set("/proj/dist", "/shared/dist");
+		symlinks.add("/proj/dist");
+		// Reached through a linked parent, e.g. an `npm link`ed package
+		realPaths.set("/proj/linked/dist", "/sibling/dist");
+
+		const guard = await PathGuard.create("/proj");
+
+		expect(await guard.check("/proj/dist")).toBe(
+			"symlink to /shared/dist, outside the project",
+		);
+		expect(await guard.check("/proj/linked/dist")).toBe(
+			"resolves to /sibling/dist, outside the project",
+		);
+		await expect(guard.assertInside("/proj/dist")).rejects.toThrow(
+			"Refusing to delete /proj/dist",
+		);
+	});
+
+	test("rejects targets on another filesystem or holding a mount point", async () => {
+		const { PathGuard } = await importPathGuard("mounts");
+		realPaths.set("/proj/node_modules", "/proj/node_modules");
+		devices.set("/proj/node_modules", 2);
+		realPaths.set("/proj/build", "/proj/build");
+		mountinfo += `\n${mountLine("/proj/build/assets\\040dir")}`;
+
+		const guard = await PathGuard.create("/proj");
+
+		expect(await guard.check("/proj/node_modules")).toBe(
+			"on another filesystem (mount point)",
+		);
+		expect(await guard.check("/proj/build")).toBe(
+			"contains the mount point build/assets dir",
+		);
+	});
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const existingFiles = new Set<string>();
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	access: async (p: string) => {
+		if (!existingFiles.has(p)) throw new Error(`ENOENT: ${p}`);
+	},
+	readFile: async (p: string) => {
+		throw new Error(`ENOENT: ${p}`);
+	},
+}));
+
+const importPlugins = async (suffix: string = String(Math.random())) =>
+	await import(`../src/plugins?${suffix}`);
+
+const context = { rootDir: "/proj", config: {} };
+
+beforeEach(() => {
+	existingFiles.clear();
+});
+
+describe("loadPlugins", () => {
+	test("puts the javascript plugin first and loads built-ins by name", async () => {
+		const { loadPlugins } = await importPlugins("builtins");
+		const custom = { name: "docker" };
+
+		const plugins = await loadPlugins(["rust", custom, "rust"], "/proj");
+
+		expect(plugins.map((plugin: { name: string }) => plugin.name)).toEqual([
+			"javascript",
+			"rust",
+			"docker",
+		]);
+	});
+
+	test("fails on modules that cannot be found", async () => {
+		const { loadPlugins } = await importPlugins("missing");
+
+		await expect(
+			loadPlugins(["purgo-plugin-nowhere"], "/proj"),
+		).rejects.toThrow('Plugin "purgo-plugin-nowhere" could not be found');
+	});
+});
+
+describe("built-in plugins", () => {
+	test("javascript contributes the default and configured targets", async () => {
+		const { javascriptPlugin, DEFAULT_TARGETS } = await importPlugins("js");
+
+		expect(await javascriptPlugin.targets({ ...context, dir: "." })).toEqual(
+			DEFAULT_TARGETS,
+		);
+		expect(
+			await javascriptPlugin.targets({
+				rootDir: "/proj",
+				config: { targets: ["out"], presets: ["turbo"] },
+				dir: ".",
+			}),
+		).toEqual(["out", ".turbo"]);
+	});
+
+	test("python and rust only contribute in their projects", async () => {
+		const { pythonPlugin, rustPlugin } = await importPlugins("languages");
+		existingFiles.add("/proj/services/api/pyproject.toml");
+		existingFiles.add("/proj/crates/core/Cargo.toml");
+
+		expect(
+			await pythonPlugin.targets({ ...context, dir: "services/api" }),
+		).toContainEqual({ pattern: "__pycache__", type: "dir" });
+		expect(await pythonPlugin.targets({ ...context, dir: "." })).toEqual([]);
+		expect(
+			await rustPlugin.targets({ ...context, dir: "crates/core" }),
+		).toEqual([{ pattern: "/target", type: "dir" }]);
+		expect(await rustPlugin.targets({ ...context, dir: "." })).toEqual([]);
+	});
+});
+
+describe("findPluginVeto", () => {
+	const target = { path: "dist", absolutePath: "/proj/dist", size: 10 };
+
+	test("gives the reason of the first plugin keeping the target", async () => {
+		const { findPluginVeto } = await importPlugins("veto");
+		const plugins = [
+			{ name: "lenient", beforeDelete: () => undefined },
+			{ name: "strict", beforeDelete: () => false },
+			{ name: "chatty", beforeDelete: () => "in use by the dev server" },
+		];
+
+		expect(await findPluginVeto(plugins, target, context)).toBe(
+			"kept by the strict plugin",
+		);
+		expect(await findPluginVeto(plugins.slice(2), target, context)).toBe(
+			"in use by the dev server",
+		);
+		expect(await findPluginVeto(plugins.slice(0, 1), target, context)).toBe(
+			null,
+		);
+	});
+
+	test("names the plugin that failed", async () => {
+		const { findPluginVeto } = await importPlugins("veto-error");
+		const plugins = [
+			{
+				name: "remote",
+				beforeDelete: async () => {
+					throw new Error("timeout");
+				},
+			},
+		];
+
+		await expect(findPluginVeto(plugins, target, context)).rejects.toThrow(
+			"remote plugin failed: timeout",
+		);
+	});
+});
+
+describe("withPluginReporters", () => {
+	test("forwards events but keeps the reporter's answers", async () => {
+		const { withPluginReporters } = await importPlugins("reporters");
+		const { SilentReporter } = await import("../src/reporter");
+		const showSummary = mock(() => {});
+		const confirm = mock(async () => false);
+
+		const reporter = withPluginReporters(new SilentReporter(), [
+			{ name: "slack", reporter: { showSummary, confirm } },
+		]);
+		const summary = {
+			deletedCount: 1,
+			totalSize: 10,
+			errorCount: 0,
+			errors: [],
+			elapsedTime: 1,
+			speed: 10,
+		};
+		reporter.showSummary(summary);
+
+		expect(showSummary).toHaveBeenCalledWith(summary);
+		expect(await reporter.confirm("Delete?")).toBe(true);
+		expect(confirm).toHaveBeenCalledWith("Delete?");
+	});
+
+	test("reports failing handlers without interrupting the cleanup", async () => {
+		const { withPluginReporters } = await importPlugins("reporter-errors");
+		const { SilentReporter } = await import("../src/reporter");
+		const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+		const updateProgress = mock(() => {});
+
+		const reporter = withPluginReporters(new SilentReporter(), [
+			{
+				name: "broken",
+				reporter: {
+					updateProgress: () => {
+						throw new Error("sync boom");
+					},
+					showSummary: async () => {
+						throw new Error("async boom");
+					},
+				},
+			},
+			{ name: "working", reporter: { updateProgress } },
+		]);
+
+		reporter.updateProgress({ current: 1, total: 2 });
+		reporter.showSummary({ deletedCount: 1, totalSize: 10, errorCount: 0 });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(updateProgress).toHaveBeenCalled();
+		const messages = errorSpy.mock.calls.map((call) => String(call[0]));
+		expect(messages.some((m) => m.includes("sync boom"))).toBe(true);
+		expect(messages.some((m) => m.includes("async boom"))).toBe(true);
+		errorSpy.mockRestore();
+	});
+});
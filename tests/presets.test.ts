@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const files = new Map<string, string>();
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		const content = files.get(p.replace(/\\/g, "/"));
+		if (content === undefined) throw new Error(`ENOENT: ${p}`);
+		return content;
+	},
+	access: async (p: string) => {
+		if (!files.has(p.replace(/\\/g, "/"))) throw new Error(`ENOENT: ${p}`);
+	},
+}));
+
+const importPresets = async (suffix: string = String(Math.random())) =>
+	await import(`../src/presets?${suffix}`);
+
+beforeEach(() => {
+	files.clear();
+});
+
+describe("detectPresets", () => {
+	test("detects presets from any dependency field", async () => {
+		const { detectPresets } = await importPresets("deps");
+		files.set(
+			"/app/package.json",
+			JSON.stringify({
+				dependencies: { next: "^15.0.0", react: "^19.0.0" },
+				devDependencies: {
+					"@playwright/test": "^1.50.0",
+					"@storybook/react": "^8.0.0",
+					typescript: "^5.0.0",
+				},
+			}),
+		);
+
+		expect(await detectPresets("/app")).toEqual([
+			"next",
+			"storybook",
+			"playwright",
+			"typescript",
+		]);
+	});
+
+	test("detects presets from tool config files", async () => {
+		const { detectPresets } = await importPresets("files");
+		files.set("/ws/turbo.json", "{}");
+		files.set("/ws/nx.json", "{}");
+
+		expect(await detectPresets("/ws")).toEqual(["turbo", "nx"]);
+	});
+
+	test("returns nothing without a package.json", async () => {
+		const { detectPresets } = await importPresets("none");
+
+		expect(await detectPresets("/nonexistent")).toEqual([]);
+	});
+});
+
+describe("getPresetTargets", () => {
+	test("merges the targets of several presets without duplicates", async () => {
+		const { getPresetTargets } = await importPresets("targets");
+
+		expect(getPresetTargets(["vite", "astro", "turbo"])).toEqual([
+			"dist",
+			"node_modules/.vite",
+			".astro",
+			".turbo",
+		]);
+	});
+});
@@ -0,0 +1,247 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fs from "node:fs";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFs = { ...fs };
+const actualFsPromises = { ...fsPromises };
+
+const files = new Map<string, string>();
+const dirs = new Map<string, string[]>();
+const existing = new Set<string>();
+
+const existsSyncMock = mock((p: string) => existing.has(p));
+const readdirMock = mock(async (p: string) => {
+	const entries = dirs.get(p);
+	if (!entries) throw new Error(`ENOENT: ${p}`);
+	return entries;
+});
+const readFileMock = mock(async (p: string, _enc?: unknown) => {
+	const content = files.get(p);
+	if (content === undefined) throw new Error(`ENOENT: ${p}`);
+	return content;
+});
+const rmMock = mock(async (_p: string, _o?: unknown) => {});
+const mkdirMock = mock(async (_p: string, _o?: unknown) => {});
+const cpMock = mock(async (_src: string, _dest: string, _o?: unknown) => {});
+const renameMock = mock(async (_src: string, _dest: string) => {});
+const writeFileMock = mock(
+	async (p: string, content: string, _enc?: unknown) => {
+		files.set(p, content);
+	},
+);
+const execaMock = mock(async (_cmd: string, _args: string[]) => ({
+	exitCode: 0,
+	stdout: "",
+	stderr: "",
+}));
+
+mock.module("node:fs", () => ({ ...actualFs, existsSync: existsSyncMock }));
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readdir: readdirMock,
+	readFile: readFileMock,
+	rm: rmMock,
+	mkdir: mkdirMock,
+	cp: cpMock,
+	rename: renameMock,
+	writeFile: writeFileMock,
+}));
+mock.module("execa", () => ({ execa: execaMock }));
+
+const importRestore = async (suffix: string = String(Math.random())) =>
+	await import(`../src/restore?${suffix}`);
+
+const makeManifest = (
+	id: string,
+	createdAt: string,
+	format: "tar" | "copy" | "move" = "tar",
+) => ({
+	version: 1 as const,
+	id,
+	format,
+	rootDir: "/proj",
+	createdAt,
+	totalSize: 30,
+	entries: [
+		{
+			path: "dist",
+			originalPath: "/proj/dist",
+			size: 10,
+			storedPath: `/backups/${id}/0001-dist${format === "tar" ? ".tar.gz" : ""}`,
+		},
+		{
+			path: "app/node_modules",
+			originalPath: "/proj/app/node_modules",
+			size: 20,
+			storedPath: `/backups/${id}/0002-node_modules${format === "tar" ? ".tar.gz" : ""}`,
+		},
+	],
+});
+
+const addRun = (manifest: ReturnType<typeof makeManifest>) => {
+	const entries = dirs.get("/backups") ?? [];
+	dirs.set("/backups", [...entries, manifest.id]);
+	files.set(`/backups/${manifest.id}/manifest.json`, JSON.stringify(manifest));
+	for (const entry of manifest.entries) existing.add(entry.storedPath);
+};
+
+beforeEach(() => {
+	files.clear();
+	dirs.clear();
+	existing.clear();
+	rmMock.mockClear();
+	mkdirMock.mockClear();
+	cpMock.mockReset();
+	renameMock.mockReset();
+	writeFileMock.mockClear();
+	execaMock.mockReset();
+});
+
+describe("listBackupRuns", () => {
+	test("returns runs newest first and skips invalid directories", async () => {
+		const { listBackupRuns } = await importRestore("list");
+
+		addRun(makeManifest("run-old", "2025-01-01T00:00:00.000Z"));
+		addRun(makeManifest("run-new", "2025-02-01T00:00:00.000Z"));
+		dirs.set("/backups", [...(dirs.get("/backups") ?? []), "garbage"]);
+		files.set("/backups/garbage/manifest.json", "{ not json");
+
+		const runs = await listBackupRuns("/backups");
+
+		expect(runs.map((r: { id: string }) => r.id)).toEqual([
+			"run-new",
+			"run-old",
+		]);
+	});
+
+	test("returns an empty list when the backup directory does not exist", async () => {
+		const { listBackupRuns } = await importRestore("missing");
+
+		expect(await listBackupRuns("/nowhere")).toEqual([]);
+	});
+});
+
+describe("findBackupRun", () => {
+	test("matches full IDs and unique prefixes", async () => {
+		const { findBackupRun } = await importRestore("find");
+
+		addRun(makeManifest("2025-01-01-aaa", "2025-01-01T00:00:00.000Z"));
+		addRun(makeManifest("2025-02-01-bbb", "2025-02-01T00:00:00.000Z"));
+
+		expect((await findBackupRun("2025-01-01-aaa", "/backups")).id).toBe(
+			"2025-01-01-aaa",
+		);
+		expect((await findBackupRun("2025-02", "/backups")).id).toBe(
+			"2025-02-01-bbb",
+		);
+	});
+
+	test("throws for unknown or ambiguous IDs", async () => {
+		const { findBackupRun } = await importRestore("find-errors");
+
+		addRun(makeManifest("2025-01-01-aaa", "2025-01-01T00:00:00.000Z"));
+		addRun(makeManifest("2025-01-02-bbb", "2025-01-02T00:00:00.000Z"));
+
+		await expect(findBackupRun("1999", "/backups")).rejects.toThrow(
+			"No run found",
+		);
+		await expect(findBackupRun("2025-01", "/backups")).rejects.toThrow(
+			"ambiguous",
+		);
+	});
+});
+
+describe("restoreBackupRun", () => {
+	test("extracts tar archives next to their original location", async () => {
+		const { restoreBackupRun } = await importRestore("tar");
+		const manifest = makeManifest("run", "2025-01-01T00:00:00.000Z");
+		addRun(manifest);
+
+		const result = await restoreBackupRun(manifest);
+
+		expect(result.restored).toEqual(["/proj/dist", "/proj/app/node_modules"]);
+		expect(execaMock.mock.calls.map((c) => c[1])).toEqual([
+			["-xzf", "/backups/run/0001-dist.tar.gz", "-C", "/proj"],
+			["-xzf", "/backups/run/0002-node_modules.tar.gz", "-C", "/proj/app"],
+		]);
+	});
+
+	test("copies directory snapshots back in place", async () => {
+		const { restoreBackupRun } = await importRestore("copy");
+		const manifest = makeManifest("run", "2025-01-01T00:00:00.000Z", "copy");
+		addRun(manifest);
+
+		await restoreBackupRun(manifest);
+
+		expect(cpMock.mock.calls.map((c) => [c[0], c[1]])).toEqual([
+			["/backups/run/0001-dist", "/proj/dist"],
+			["/backups/run/0002-node_modules", "/proj/app/node_modules"],
+		]);
+	});
+
+	test("skips recreated paths unless overwrite is set", async () => {
+		const { restoreBackupRun } = await importRestore("overwrite");
+		const manifest = makeManifest("run", "2025-01-01T00:00:00.000Z");
+		addRun(manifest);
+		existing.add("/proj/dist");
+
+		const result = await restoreBackupRun(manifest);
+
+		expect(result.restored).toEqual(["/proj/app/node_modules"]);
+		expect(result.skipped.map((s: { path: string }) => s.path)).toEqual([
+			"/proj/dist",
+		]);
+		expect(rmMock).not.toHaveBeenCalledWith("/proj/dist", expect.anything());
+
+		const overwritten = await restoreBackupRun(manifest, { overwrite: true });
+
+		expect(overwritten.restored).toContain("/proj/dist");
+		expect(rmMock).toHaveBeenCalledWith("/proj/dist", {
+			recursive: true,
+			force: true,
+		});
+	});
+
+	test("reports entries whose backup file is missing", async () => {
+		const { restoreBackupRun } = await importRestore("missing-file");
+		const manifest = makeManifest("run", "2025-01-01T00:00:00.000Z");
+		addRun(manifest);
+		existing.delete("/backups/run/0001-dist.tar.gz");
+
+		const result = await restoreBackupRun(manifest);
+
+		expect(result.errors.map((e: { path: string }) => e.path)).toEqual([
+			"/proj/dist",
+		]);
+		expect(result.restored).toEqual(["/proj/app/node_modules"]);
+	});
+
+	test("takes trashed entries out of their run once moved back", async () => {
+		const { restoreBackupRun } = await importRestore("move");
+		const manifest = makeManifest("run", "2025-01-01T00:00:00.000Z", "move");
+		addRun(manifest);
+		existing.add("/backups/run/manifest.json");
+		existing.add("/proj/dist");
+
+		await restoreBackupRun(manifest, { backupDirs: "/backups" });
+
+		expect(renameMock).toHaveBeenCalledWith(
+			"/backups/run/0002-node_modules",
+			"/proj/app/node_modules",
+		);
+		const saved = JSON.parse(files.get("/backups/run/manifest.json") ?? "");
+		expect(saved.entries.map((e: { path: string }) => e.path)).toEqual([
+			"dist",
+		]);
+		expect(saved.totalSize).toBe(10);
+
+		existing.delete("/proj/dist");
+		await restoreBackupRun(saved, { backupDirs: "/backups" });
+
+		expect(rmMock).toHaveBeenCalledWith("/backups/run", {
+			recursive: true,
+			force: true,
+		});
+	});
+});
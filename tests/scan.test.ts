@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+import { resolve } from "node:path";
+import * as globModule from "glob";
+import { configCache } from "../src/cache";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+const actualGlob = { ...globModule };
+
+const files: Record<string, string[]> = {};
+const manifests = new Map<string, unknown>();
+const configs = new Map<string, unknown>();
+
+const globMock = mock(async (patterns: string[], opts: { cwd: string }) => {
+	// Marker lookups go through the workspace, target lookups through a project
+	if (patterns.some((pattern) => pattern.endsWith("package.json"))) {
+		return files[opts.cwd] ?? [];
+	}
+	return files[`${opts.cwd}:targets`] ?? [];
+});
+const getFolderSizeMock = mock(async (_p: string) => 1000);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		if (!manifests.has(p)) throw new Error(`ENOENT: ${p}`);
+		return JSON.stringify(manifests.get(p));
+	},
+}));
+mock.module("glob", () => ({ ...actualGlob, glob: globMock }));
+mock.module("get-folder-size", () => ({ default: getFolderSizeMock }));
+mock.module("cosmiconfig", () => ({
+	cosmiconfig: () => ({
+		search: async (cwd: string) =>
+			configs.has(cwd)
+				? { config: configs.get(cwd), filepath: `${cwd}/.purgorc.json` }
+				: null,
+		load: async () => null,
+	}),
+}));
+
+const importScan = async (suffix: string = String(Math.random())) =>
+	await import(`../src/scan?${suffix}`);
+
+beforeEach(() => {
+	for (const key of Object.keys(files)) delete files[key];
+	configs.clear();
+	manifests.clear();
+	configCache.clear();
+	globMock.mockClear();
+	getFolderSizeMock.mockReset();
+	getFolderSizeMock.mockImplementation(async () => 1000);
+	process.env.PURGO_GLOBAL_CONFIG = "/nonexistent/config.json";
+});
+
+afterEach(() => {
+	delete process.env.PURGO_GLOBAL_CONFIG;
+});
+
+describe("findProjectRoots", () => {
+	test("returns the outermost directory holding a marker", async () => {
+		const { findProjectRoots } = await importScan("roots");
+		files["/ws"] = [
+			"app/package.json",
+			"app/pnpm-lock.yaml",
+			"app/packages/ui/package.json",
+			"lib/yarn.lock",
+		];
+
+		expect(await findProjectRoots("/ws")).toEqual([
+			resolve("/ws/app"),
+			resolve("/ws/lib"),
+		]);
+	});
+
+	test("returns the base directory when it is a project itself", async () => {
+		const { findProjectRoots } = await importScan("self");
+		files["/ws"] = ["package.json", "tools/package.json"];
+
+		expect(await findProjectRoots("/ws")).toEqual([resolve("/ws")]);
+	});
+
+	test("limits the search depth", async () => {
+		const { findProjectRoots } = await importScan("depth");
+
+		await findProjectRoots("/ws", 2);
+
+		const opts = globMock.mock.calls[0]?.[1] as { maxDepth?: number };
+		expect(opts.maxDepth).toBe(3);
+	});
+});
+
+describe("scanWorkspace", () => {
+	test("aggregates targets per project using each project's config", async () => {
+		const { scanWorkspace } = await importScan("aggregate");
+		files["/ws"] = ["a/package.json", "b/package.json"];
+		files[`${resolve("/ws/a")}:targets`] = ["node_modules", "dist"];
+		files[`${resolve("/ws/b")}:targets`] = ["node_modules"];
+		configs.set(resolve("/ws/b"), { targets: ["node_modules"] });
+
+		const result = await scanWorkspace({ baseDir: "/ws" });
+
+		expect(result.projects.map((p: { rootDir: string }) => p.rootDir)).toEqual([
+			resolve("/ws/a"),
+			resolve("/ws/b"),
+		]);
+		expect(result.projects[0]?.totalSize).toBe(2000);
+		expect(result.projects[1]?.totalSize).toBe(1000);
+		expect(result.totalSize).toBe(3000);
+
+		const targetPatterns = globMock.mock.calls
+			.filter(([, opts]) => opts.cwd === resolve("/ws/b"))
+			.map(([patterns]) => patterns);
+		expect(targetPatterns).toEqual([["**/node_modules"]]);
+	});
+
+	test("searches the packages of a monorepo like a cleanup does", async () => {
+		const { scanWorkspace } = await importScan("monorepo");
+		const root = resolve("/ws/mono");
+		files["/ws"] = ["mono/package.json", "mono/apps/web/package.json"];
+		files[root] = ["apps/web/package.json"];
+		manifests.set(resolve(root, "package.json"), { workspaces: ["apps/*"] });
+		manifests.set(resolve(root, "apps/web/package.json"), {
+			name: "web",
+			dependencies: { next: "^15.0.0" },
+		});
+
+		await scanWorkspace({ baseDir: "/ws" });
+
+		const targetPatterns = globMock.mock.calls
+			.filter(([patterns]) => !patterns.some((p) => p.endsWith("package.json")))
+			.map(([patterns]) => patterns);
+		expect(targetPatterns[1]).toContain("apps/web/**/.next");
+	});
+
+	test("applies the size filter to every project", async () => {
+		const { scanWorkspace } = await importScan("min-size");
+		files["/ws"] = ["a/package.json"];
+		files[`${resolve("/ws/a")}:targets`] = ["node_modules", "dist"];
+		getFolderSizeMock.mockImplementation(async (p: string) =>
+			p.endsWith("dist") ? 10 : 5000,
+		);
+
+		const result = await scanWorkspace({ baseDir: "/ws", minSize: "1KB" });
+
+		expect(
+			result.projects[0]?.targets.map((t: { path: string }) => t.path),
+		).toEqual(["node_modules"]);
+		expect(result.projects[0]?.skipped[0]?.path).toBe("dist");
+	});
+
+	test("reports an invalid config without aborting the scan", async () => {
+		const { scanWorkspace } = await importScan("invalid");
+		files["/ws"] = ["a/package.json", "b/package.json"];
+		files[`${resolve("/ws/b")}:targets`] = ["node_modules"];
+		configs.set(resolve("/ws/a"), { targets: 42 });
+
+		const result = await scanWorkspace({ baseDir: "/ws" });
+
+		expect(result.projects[0]?.error).toBeTruthy();
+		expect(result.projects[0]?.targets).toEqual([]);
+		expect(result.projects[1]?.totalSize).toBe(1000);
+	});
+});
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+// In-memory tree: directories map to their entries, files to their size
+const dirs = new Map<string, string[]>();
+const files = new Map<string, number>();
+const written = new Map<string, string>();
+// Hard-linked files: inode and link count
+const links = new Map<string, { ino: number; nlink: number }>();
+
+const enoent = (p: string) => new Error(`ENOENT: ${p}`);
+type FolderSizeOptions = {
+	fs?: { lstat: (p: string, opts: { bigint: true }) => Promise<unknown> };
+};
+const getFolderSizeMock = mock(
+	async (_p: string, _opts?: FolderSizeOptions) => 5000,
+);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readdir: async (p: string) => {
+		const entries = dirs.get(p);
+		if (!entries) throw enoent(p);
+		return entries.map((name) => ({
+			name,
+			isFile: () => files.has(`${p}/${name}`),
+			isDirectory: () => dirs.has(`${p}/${name}`),
+		}));
+	},
+	lstat: async (p: string, opts?: { bigint?: boolean }) => {
+		const size = files.get(p);
+		if (size === undefined) throw enoent(p);
+		const { ino, nlink } = links.get(p) ?? { ino: 0, nlink: 1 };
+		const num = (n: number) => (opts?.bigint ? BigInt(n) : n);
+		return {
+			size: num(size),
+			ino: num(ino),
+			nlink: num(nlink),
+			dev: num(1),
+			isFile: () => true,
+		};
+	},
+	stat: async (p: string) => {
+		if (!dirs.has(p)) throw enoent(p);
+		return { ino: 42, mtimeMs: 1000 };
+	},
+	readFile: async (p: string) => {
+		const content = written.get(p);
+		if (content === undefined) throw enoent(p);
+		return content;
+	},
+	writeFile: async (p: string, content: string) => {
+		written.set(p, content);
+	},
+	rename: async (from: string, to: string) => {
+		written.set(to, written.get(from) ?? "");
+		written.delete(from);
+	},
+	mkdir: async () => {},
+}));
+mock.module("get-folder-size", () => ({ default: getFolderSizeMock }));
+
+const importSizes = async (suffix: string = String(Math.random())) =>
+	await import(`../src/sizes?${suffix}`);
+
+const CACHE_FILE = "/cache/sizes.json";
+
+beforeEach(() => {
+	dirs.clear();
+	files.clear();
+	written.clear();
+	links.clear();
+	getFolderSizeMock.mockClear();
+});
+
+describe("SizeCache", () => {
+	test("reuses a size while the directory keeps its inode and mtime", async () => {
+		const { SizeCache } = await importSizes("cache-hit");
+		const cache = await SizeCache.load(CACHE_FILE);
+		cache.set("/proj/node_modules", { ino: 1, mtimeMs: 10 }, 2048);
+
+		expect(cache.get("/proj/node_modules", { ino: 1, mtimeMs: 10 })).toBe(2048);
+		expect(cache.get("/proj/node_modules", { ino: 1, mtimeMs: 11 })).toBeNull();
+		expect(cache.get("/proj/node_modules", { ino: 2, mtimeMs: 10 })).toBeNull();
+	});
+
+	test("persists entries across runs", async () => {
+		const { SizeCache } = await importSizes("cache-persist");
+		const first = await SizeCache.load(CACHE_FILE);
+		first.set("/proj/dist", { ino: 1, mtimeMs: 10 }, 100);
+		await first.save();
+
+		// Another run saved meanwhile; both entries are kept
+		const other = await SizeCache.load(CACHE_FILE);
+		other.set("/other/dist", { ino: 2, mtimeMs: 20 }, 200);
+		await other.save();
+
+		const next = await SizeCache.load(CACHE_FILE);
+		expect(next.get("/proj/dist", { ino: 1, mtimeMs: 10 })).toBe(100);
+		expect(next.get("/other/dist", { ino: 2, mtimeMs: 20 })).toBe(200);
+	});
+
+	test("drops entries older than a day", async () => {
+		const { SizeCache } = await importSizes("cache-expiry");
+		written.set(
+			CACHE_FILE,
+			JSON.stringify({
+				version: 1,
+				entries: {
+					"/proj/dist": {
+						ino: 1,
+						mtimeMs: 10,
+						size: 100,
+						measuredAt: Date.now() - 25 * 60 * 60 * 1000,
+					},
+				},
+			}),
+		);
+
+		const cache = await SizeCache.load(CACHE_FILE);
+
+		expect(cache.get("/proj/dist", { ino: 1, mtimeMs: 10 })).toBeNull();
+	});
+
+	test("starts empty when the file is unreadable", async () => {
+		const { SizeCache } = await importSizes("cache-corrupt");
+		written.set(CACHE_FILE, "{not json");
+
+		const cache = await SizeCache.load(CACHE_FILE);
+
+		expect(cache.get("/proj/dist", { ino: 1, mtimeMs: 10 })).toBeNull();
+	});
+});
+
+describe("estimateFolderSize", () => {
+	test("measures small directories completely", async () => {
+		const { estimateFolderSize } = await importSizes("estimate-small");
+		dirs.set("/t", ["a.js", "lib"]);
+		dirs.set("/t/lib", ["b.js", "c.js"]);
+		files.set("/t/a.js", 100);
+		files.set("/t/lib/b.js", 10);
+		files.set("/t/lib/c.js", 30);
+
+		expect(await estimateFolderSize("/t")).toBe(140);
+	});
+
+	test("extrapolates from a sample of subdirectories", async () => {
+		const { estimateFolderSize } = await importSizes("estimate-sample");
+		const packages = Array.from({ length: 40 }, (_, i) => `pkg${i}`);
+		dirs.set("/nm", packages);
+		for (const name of packages) {
+			dirs.set(`/nm/${name}`, ["index.js"]);
+			files.set(`/nm/${name}/index.js`, 50);
+		}
+
+		expect(await estimateFolderSize("/nm", 4)).toBe(2000);
+	});
+});
+
+describe("measureFolderSize", () => {
+	test("leaves out files also linked from outside the directory", async () => {
+		const { measureFolderSize } = await importSizes("hardlinks");
+		files.set("/nm/a.js", 100);
+		files.set("/nm/store-linked.js", 400);
+		files.set("/nm/b.js", 300);
+		files.set("/nm/b-copy.js", 300);
+		links.set("/nm/store-linked.js", { ino: 7, nlink: 2 });
+		// Both links of this file are inside, so deleting frees it
+		links.set("/nm/b.js", { ino: 8, nlink: 2 });
+		links.set("/nm/b-copy.js", { ino: 8, nlink: 2 });
+		getFolderSizeMock.mockImplementationOnce(async (_p, opts) => {
+			for (const file of files.keys()) {
+				await opts?.fs?.lstat(file, { bigint: true });
+			}
+			// get-folder-size counts each inode once
+			return 800;
+		});
+
+		expect(await measureFolderSize("/nm")).toBe(400);
+	});
+});
+
+describe("measureSize", () => {
+	test("measures once, then answers from the cache", async () => {
+		const { measureSize, SizeCache } = await importSizes("measure-cache");
+		dirs.set("/proj/node_modules", []);
+		const cache = await SizeCache.load(CACHE_FILE);
+
+		expect(await measureSize("/proj/node_modules", "exact", cache)).toBe(5000);
+		expect(await measureSize("/proj/node_modules", "exact", cache)).toBe(5000);
+		expect(getFolderSizeMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("does not measure anything in 'none' mode", async () => {
+		const { measureSize } = await importSizes("measure-none");
+
+		expect(await measureSize("/proj/node_modules", "none")).toBe(0);
+		expect(getFolderSizeMock).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import * as v from "valibot";
+import { parseTarget, targetSchema } from "../src/targets";
+
+describe("parseTarget", () => {
+	test("matches plain patterns at any depth", () => {
+		expect(parseTarget("node_modules")).toEqual({
+			glob: "**/node_modules",
+			negate: false,
+			type: undefined,
+			maxDepth: undefined,
+		});
+	});
+
+	test("anchors patterns starting with a slash", () => {
+		expect(parseTarget("/dist").glob).toBe("dist");
+		expect(parseTarget("!/packages/legacy/dist/")).toMatchObject({
+			glob: "packages/legacy/dist",
+			negate: true,
+		});
+	});
+
+	test("keeps the restrictions of object targets", () => {
+		expect(
+			parseTarget({ pattern: "*.tsbuildinfo", type: "file", maxDepth: 2 }),
+		).toEqual({
+			glob: "**/*.tsbuildinfo",
+			negate: false,
+			type: "file",
+			maxDepth: 2,
+		});
+	});
+});
+
+describe("targetSchema", () => {
+	test("accepts strings and object targets", () => {
+		for (const target of [
+			"dist",
+			"!/build",
+			{ pattern: "out", type: "dir" },
+			{ pattern: "/.cache", maxDepth: 1 },
+		]) {
+			expect(v.safeParse(targetSchema, target).success).toBe(true);
+		}
+	});
+
+	test("rejects empty patterns and invalid restrictions", () => {
+		for (const target of [
+			"",
+			"!/",
+			{ pattern: "dist", type: "link" },
+			{ pattern: "dist", maxDepth: 0 },
+			{ pattern: "dist", maxDepth: 1.5 },
+		]) {
+			expect(v.safeParse(targetSchema, target).success).toBe(false);
+		}
+	});
+});
@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+import * as os from "node:os";
+
+// Keep a copy of the real modules so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+const actualOs = { ...os };
+
+const files = new Map<string, string>();
+const writes = new Map<string, string>();
+const existing = new Set<string>();
+
+const mkdirMock = mock(async (_p: string, _o?: unknown) => {});
+const writeFileMock = mock(
+	async (p: string, data: string, opts?: string | { flag?: string }) => {
+		const flag = typeof opts === "object" ? opts.flag : undefined;
+		if (flag === "wx" && writes.has(p)) {
+			throw Object.assign(new Error(`EEXIST: ${p}`), { code: "EEXIST" });
+		}
+		writes.set(p, data);
+	},
+);
+const renameMock = mock(async (_src: string, _dest: string) => {});
+const rmMock = mock(async (_p: string, _o?: unknown) => {});
+const cpMock = mock(async (_src: string, _dest: string, _o?: unknown) => {});
+const readdirMock = mock(async (p: string) => {
+	const prefix = `${p}/`;
+	return [...files.keys()]
+		.filter((f) => f.startsWith(prefix))
+		.map((f) => f.slice(prefix.length).split("/")[0] as string);
+});
+const readFileMock = mock(async (p: string, _enc?: unknown) => {
+	const content = files.get(p);
+	if (content === undefined) throw new Error(`ENOENT: ${p}`);
+	return content;
+});
+
+let mockPlatform = "linux";
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	mkdir: mkdirMock,
+	writeFile: writeFileMock,
+	rename: renameMock,
+	rm: rmMock,
+	cp: cpMock,
+	readdir: readdirMock,
+	readFile: readFileMock,
+	access: async (p: string) => {
+		if (!existing.has(p)) throw new Error(`ENOENT: ${p}`);
+	},
+}));
+mock.module("node:os", () => ({
+	...actualOs,
+	platform: () => mockPlatform,
+	homedir: () => "/home/user",
+}));
+
+const importTrash = async (suffix: string = String(Math.random())) =>
+	await import(`../src/trash?${suffix}`);
+
+const lastManifest = () => {
+	const manifests = [...writes.entries()].filter(([p]) =>
+		p.endsWith("manifest.json"),
+	);
+	return JSON.parse(manifests[manifests.length - 1]?.[1] ?? "null");
+};
+
+beforeEach(() => {
+	files.clear();
+	writes.clear();
+	existing.clear();
+	mkdirMock.mockClear();
+	writeFileMock.mockClear();
+	renameMock.mockReset();
+	rmMock.mockClear();
+	cpMock.mockClear();
+	mockPlatform = "linux";
+	process.env.PURGO_DATA_DIR = "/data";
+	process.env.XDG_DATA_HOME = "/home/user/.local/share";
+});
+
+afterEach(() => {
+	delete process.env.PURGO_DATA_DIR;
+	delete process.env.XDG_DATA_HOME;
+});
+
+describe("createTrashInfo", () => {
+	test("produces a freedesktop.org trashinfo document", async () => {
+		const { createTrashInfo } = await importTrash("info");
+
+		const info = createTrashInfo(
+			"/proj/my app/dist",
+			new Date(2025, 0, 31, 9, 5, 7),
+		);
+
+		expect(info).toBe(
+			"[Trash Info]\nPath=/proj/my%20app/dist\nDeletionDate=2025-01-31T09:05:07\n",
+		);
+	});
+});
+
+describe("TrashRun (purgo location)", () => {
+	test("moves targets into the run directory and records them", async () => {
+		const { createTrashRun } = await importTrash("purgo");
+
+		const run = await createTrashRun({ rootDir: "/proj" });
+		await run.trash("/proj/dist", "dist", 100);
+
+		expect(run.dir.startsWith("/data/trash/")).toBe(true);
+		expect(run.destination).toBe(run.dir);
+		expect(renameMock).toHaveBeenCalledWith(
+			"/proj/dist",
+			`${run.dir}/0001-dist`,
+		);
+
+		const manifest = lastManifest();
+		expect(manifest.format).toBe("move");
+		expect(manifest.totalSize).toBe(100);
+		expect(manifest.entries[0].storedPath).toBe(`${run.dir}/0001-dist`);
+	});
+
+	test("falls back to copy + remove across filesystems", async () => {
+		const { createTrashRun } = await importTrash("exdev");
+		renameMock.mockImplementationOnce(async () => {
+			throw Object.assign(new Error("EXDEV"), { code: "EXDEV" });
+		});
+
+		const run = await createTrashRun({ rootDir: "/proj" });
+		await run.trash("/proj/dist", "dist", 1);
+
+		expect(cpMock).toHaveBeenCalled();
+		expect(rmMock).toHaveBeenCalledWith("/proj/dist", {
+			recursive: true,
+			force: true,
+		});
+	});
+
+	test("propagates move errors without recording the entry", async () => {
+		const { createTrashRun } = await importTrash("eperm");
+		renameMock.mockImplementationOnce(async () => {
+			throw Object.assign(new Error("EPERM"), { code: "EPERM" });
+		});
+
+		const run = await createTrashRun({ rootDir: "/proj" });
+
+		await expect(run.trash("/proj/dist", "dist", 1)).rejects.toThrow("EPERM");
+		expect(run.entries).toEqual([]);
+	});
+});
+
+describe("TrashRun (system location)", () => {
+	test("uses the freedesktop layout with a .trashinfo per item", async () => {
+		const { createTrashRun } = await importTrash("system");
+
+		const run = await createTrashRun({ rootDir: "/proj", location: "system" });
+		await run.trash("/proj/a/dist", "a/dist", 1);
+		await run.trash("/proj/b/dist", "b/dist", 1);
+
+		const trash = "/home/user/.local/share/Trash";
+		expect(run.destination).toBe(`${trash}/files`);
+		expect(writes.has(`${trash}/info/dist.trashinfo`)).toBe(true);
+		expect(writes.has(`${trash}/info/dist.2.trashinfo`)).toBe(true);
+		expect(renameMock.mock.calls).toEqual([
+			["/proj/a/dist", `${trash}/files/dist`],
+			["/proj/b/dist", `${trash}/files/dist.2`],
+		]);
+		expect(lastManifest().entries[1].trashInfoPath).toBe(
+			`${trash}/info/dist.2.trashinfo`,
+		);
+	});
+
+	test("falls back to the purgo location outside Linux", async () => {
+		mockPlatform = "darwin";
+		const { createTrashRun } = await importTrash("darwin");
+
+		const run = await createTrashRun({ rootDir: "/proj", location: "system" });
+
+		expect(run.location).toBe("purgo");
+	});
+});
+
+describe("emptyTrash", () => {
+	const addRun = (id: string, createdAt: string, trashInfoPath?: string) => {
+		files.set(
+			`/data/trash/${id}/manifest.json`,
+			JSON.stringify({
+				version: 1,
+				id,
+				format: "move",
+				rootDir: "/proj",
+				createdAt,
+				totalSize: 50,
+				entries: [
+					{
+						path: "dist",
+						originalPath: "/proj/dist",
+						size: 50,
+						storedPath: `/stored/${id}`,
+						trashInfoPath,
+					},
+				],
+			}),
+		);
+		existing.add(`/stored/${id}`);
+	};
+
+	test("removes only runs older than the given age", async () => {
+		const { emptyTrash } = await importTrash("empty");
+		const day = 24 * 60 * 60 * 1000;
+		addRun("old", new Date(Date.now() - 10 * day).toISOString(), "/info/old");
+		addRun("new", new Date(Date.now() - day).toISOString());
+
+		const result = await emptyTrash({ olderThan: 7 * day });
+
+		expect(result).toEqual({ removed: ["old"], freedBytes: 50 });
+		const removed = rmMock.mock.calls.map((c) => c[0]);
+		expect(removed).toEqual(["/stored/old", "/info/old", "/data/trash/old"]);
+	});
+
+	test("removes every run without an age limit", async () => {
+		const { emptyTrash } = await importTrash("empty-all");
+		addRun("a", new Date().toISOString());
+		addRun("b", new Date().toISOString());
+
+		const result = await emptyTrash();
+
+		expect(result.removed.sort()).toEqual(["a", "b"]);
+		expect(result.freedBytes).toBe(100);
+	});
+
+	test("only counts entries still in the trash as freed", async () => {
+		const { emptyTrash } = await importTrash("empty-restored");
+		addRun("a", new Date().toISOString());
+		addRun("b", new Date().toISOString());
+		existing.delete("/stored/b");
+
+		const result = await emptyTrash();
+
+		expect(result.removed.sort()).toEqual(["a", "b"]);
+		expect(result.freedBytes).toBe(50);
+		expect(rmMock).not.toHaveBeenCalledWith("/stored/b", expect.anything());
+	});
+});
@@ -113,6 +113,80 @@ describe("CleanUI", () => {
 		expect(prettyBytesMock).toHaveBeenCalled();
 	});
 
+	test("showTargets shows when each target was last touched", async () => {
+		const { CleanUI } = await importUI();
+		const ui = new CleanUI();
+
+		ui.showTargets([
+			{
+				path: "node_modules",
+				size: 1024,
+				lastActivity: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+			},
+		]);
+
+		expect(consoleOutput.some((line) => line.includes("touched 3d ago"))).toBe(
+			true,
+		);
+	});
+
+	test("showTargets warns about targets holding uncommitted changes", async () => {
+		const { CleanUI } = await importUI();
+
+		new CleanUI().showTargets([
+			{ path: "dist", size: 100, dirty: true },
+			{ path: "node_modules", size: 300 },
+		]);
+
+		const lines = consoleOutput.filter((line) => line.startsWith("  - "));
+		expect(lines[0]).toContain("⚠ uncommitted changes");
+		expect(lines[1]).not.toContain("uncommitted");
+	});
+
+	test("showTargets groups targets by workspace package, root first", async () => {
+		const { CleanUI } = await importUI();
+		const ui = new CleanUI();
+
+		ui.showTargets([
+			{ path: "apps/web/.next", size: 100, workspace: "@acme/web" },
+			{ path: "node_modules", size: 300 },
+			{ path: "apps/web/node_modules", size: 200, workspace: "@acme/web" },
+		]);
+
+		const lines = consoleOutput.filter((line) => line.startsWith("  "));
+		expect(lines[0]?.startsWith("  (root)")).toBe(true);
+		expect(lines[1]?.startsWith("    - node_modules")).toBe(true);
+		expect(lines[2]?.startsWith("  @acme/web")).toBe(true);
+		expect(lines.slice(3).map((line) => line.split(" (")[0])).toEqual([
+			"    - apps/web/.next",
+			"    - apps/web/node_modules",
+		]);
+	});
+
+	test("showSkipped prints a count, or every reason in verbose mode", async () => {
+		const { CleanUI } = await importUI();
+		const skipped = [
+			{ path: "a/dist", reason: "touched 1d ago, within 7d" },
+			{ path: "b/dist", reason: "touched 2d ago, within 7d" },
+		];
+
+		new CleanUI().showSkipped(skipped);
+		expect(consoleOutput).toEqual([
+			"⊘ 2 targets skipped (use --verbose to see why)",
+		]);
+
+		consoleOutput = [];
+		new CleanUI("verbose").showSkipped(skipped);
+		expect(consoleOutput).toEqual([
+			"⊘ a/dist: touched 1d ago, within 7d",
+			"⊘ b/dist: touched 2d ago, within 7d",
+		]);
+
+		consoleOutput = [];
+		new CleanUI("quiet").showSkipped(skipped);
+		expect(consoleOutput).toEqual([]);
+	});
+
 	test("showTargets calculates total size correctly", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
@@ -128,54 +202,71 @@ describe("CleanUI", () => {
 		expect(prettyBytesMock.mock.calls.length).toBeGreaterThanOrEqual(3);
 	});
 
-	test("showDryRunNotice displays warning in box", async () => {
+	test("showBackupLocation prints backup directory", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		ui.showDryRunNotice();
+		ui.showBackupLocation("/backups/run-1");
 
-		expect(boxenMock).toHaveBeenCalled();
+		expect(consoleOutput.some((line) => line.includes("/backups/run-1"))).toBe(
+			true,
+		);
 	});
 
-	test("showCancelled displays cancellation message", async () => {
+	test("showBackupLocation is hidden in quiet mode", async () => {
 		const { CleanUI } = await importUI();
-		const ui = new CleanUI();
+		const ui = new CleanUI("quiet");
 
-		ui.showCancelled();
+		ui.showBackupLocation("/backups/run-1");
 
-		expect(consoleOutput.length).toBeGreaterThan(0);
+		expect(consoleOutput.length).toBe(0);
 	});
 
-	test("startCleaning returns started spinner", async () => {
+	test("showDryRunNotice displays warning in box", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		const spinner = ui.startCleaning();
+		ui.showDryRunNotice();
 
-		expect(spinner).toBeDefined();
-		expect(oraMock).toHaveBeenCalled();
+		expect(boxenMock).toHaveBeenCalled();
 	});
 
-	test("showCleanResult displays success when there are no errors", async () => {
+	test("showCancelled displays cancellation message", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		const spinner = ui.startCleaning();
-		spinnerInstance.succeed.mockClear();
-		ui.showCleanResult(spinner, 0);
+		ui.showCancelled();
 
-		expect(spinnerInstance.succeed).toHaveBeenCalled();
+		expect(consoleOutput.length).toBeGreaterThan(0);
 	});
 
-	test("showCleanResult displays failure when there are errors", async () => {
+	test("updateProgress shows bytes, throughput and ETA", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
-
-		const spinner = ui.startCleaning();
-		spinnerInstance.fail.mockClear();
-		ui.showCleanResult(spinner, 3);
-
-		expect(spinnerInstance.fail).toHaveBeenCalled();
+		const realNow = Date.now;
+		const start = realNow();
+		Date.now = () => start;
+
+		try {
+			ui.startProgress(4, "Deleting");
+			Date.now = () => start + 2000;
+			ui.updateProgress({
+				current: 1,
+				total: 4,
+				itemName: "node_modules",
+				bytesDone: 300,
+				totalBytes: 400,
+			});
+		} finally {
+			Date.now = realNow;
+		}
+
+		// 75% of the bytes although only one target out of four is done
+		expect(spinnerInstance.text).toContain("75%");
+		expect(spinnerInstance.text).toContain("300 B/400 B");
+		expect(spinnerInstance.text).toContain("150 B/s");
+		expect(spinnerInstance.text).toContain("ETA 1s");
+		expect(spinnerInstance.text).toContain("(1/4) - node_modules");
 	});
 
 	test("showSummary displays summary in box", async () => {
@@ -194,23 +285,23 @@ describe("CleanUI", () => {
 		expect(prettyBytesMock).toHaveBeenCalled();
 	});
 
-	test("startReinstall returns started spinner", async () => {
+	test("startReinstall starts a spinner", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		const spinner = ui.startReinstall("npm");
+		ui.startReinstall("npm");
 
-		expect(spinner).toBeDefined();
 		expect(oraMock).toHaveBeenCalled();
+		expect(spinnerInstance.start).toHaveBeenCalled();
 	});
 
 	test("showReinstallSuccess marks spinner as success", async () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		const spinner = ui.startReinstall("npm");
+		ui.startReinstall("npm");
 		spinnerInstance.succeed.mockClear();
-		ui.showReinstallSuccess(spinner, "npm");
+		ui.showReinstallSuccess("npm");
 
 		expect(spinnerInstance.succeed).toHaveBeenCalled();
 	});
@@ -219,11 +310,11 @@ describe("CleanUI", () => {
 		const { CleanUI } = await importUI();
 		const ui = new CleanUI();
 
-		const spinner = ui.startReinstall("npm");
+		ui.startReinstall("npm");
 		spinnerInstance.fail.mockClear();
 		const error = new Error("Test error");
 
-		ui.showReinstallError(spinner, error, "npm");
+		ui.showReinstallError(error, "npm");
 
 		expect(spinnerInstance.fail).toHaveBeenCalled();
 		expect(consoleOutput.some((line) => line.includes("ERROR:"))).toBe(true);
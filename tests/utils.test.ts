@@ -2,7 +2,12 @@ import { describe, expect, test } from "bun:test";
 import {
 	deduplicatePaths,
 	detectInvokerPackageManager,
+	formatAge,
 	getPreferredPackageManager,
+	globToRegExp,
+	mapWithConcurrency,
+	parseDuration,
+	parseSize,
 	toBytes,
 } from "../src/utils";
 
@@ -187,3 +192,117 @@ describe("getPreferredPackageManager", () => {
 		}
 	});
 });
+
+describe("parseDuration", () => {
+	test("parses every supported unit", () => {
+		expect(parseDuration("500ms")).toBe(500);
+		expect(parseDuration("30s")).toBe(30 * 1000);
+		expect(parseDuration("90m")).toBe(90 * 60 * 1000);
+		expect(parseDuration("12h")).toBe(12 * 60 * 60 * 1000);
+		expect(parseDuration("7d")).toBe(7 * 24 * 60 * 60 * 1000);
+		expect(parseDuration("2w")).toBe(14 * 24 * 60 * 60 * 1000);
+	});
+
+	test("treats bare numbers as days", () => {
+		expect(parseDuration("3")).toBe(3 * 24 * 60 * 60 * 1000);
+		expect(parseDuration(1.5)).toBe(1.5 * 24 * 60 * 60 * 1000);
+	});
+
+	test("is case-insensitive and tolerates whitespace", () => {
+		expect(parseDuration(" 7D ")).toBe(7 * 24 * 60 * 60 * 1000);
+	});
+
+	test("throws on invalid input", () => {
+		expect(() => parseDuration("soon")).toThrow("Invalid duration");
+		expect(() => parseDuration("-1d")).toThrow("Invalid duration");
+		expect(() => parseDuration(-1)).toThrow("Invalid duration");
+	});
+});
+
+describe("parseSize", () => {
+	test("parses decimal and binary units", () => {
+		expect(parseSize("512")).toBe(512);
+		expect(parseSize("500KB")).toBe(500_000);
+		expect(parseSize("50MB")).toBe(50_000_000);
+		expect(parseSize("1.5 gb")).toBe(1_500_000_000);
+		expect(parseSize("2T")).toBe(2e12);
+		expect(parseSize("1MiB")).toBe(1024 * 1024);
+	});
+
+	test("treats numbers as bytes", () => {
+		expect(parseSize(2048)).toBe(2048);
+	});
+
+	test("throws on invalid input", () => {
+		expect(() => parseSize("big")).toThrow("Invalid size");
+		expect(() => parseSize("10XB")).toThrow("Invalid size");
+		expect(() => parseSize(-1)).toThrow("Invalid size");
+	});
+});
+
+describe("formatAge", () => {
+	const now = new Date("2025-06-01T00:00:00Z");
+	const ago = (ms: number) => new Date(now.getTime() - ms);
+	const day = 24 * 60 * 60 * 1000;
+
+	test("uses the largest fitting unit", () => {
+		expect(formatAge(ago(10 * 1000), now)).toBe("just now");
+		expect(formatAge(ago(5 * 60 * 1000), now)).toBe("5m ago");
+		expect(formatAge(ago(3 * 60 * 60 * 1000), now)).toBe("3h ago");
+		expect(formatAge(ago(3 * day), now)).toBe("3d ago");
+		expect(formatAge(ago(65 * day), now)).toBe("2mo ago");
+		expect(formatAge(ago(800 * day), now)).toBe("2y ago");
+	});
+
+	test("treats future dates as just now", () => {
+		expect(formatAge(new Date(now.getTime() + day), now)).toBe("just now");
+	});
+});
+
+describe("globToRegExp", () => {
+	test("keeps * and ? within a path segment", () => {
+		expect(globToRegExp("*.log").test("debug.log")).toBe(true);
+		expect(globToRegExp("*.log").test("logs/debug.log")).toBe(false);
+		expect(globToRegExp("file?.txt").test("file1.txt")).toBe(true);
+	});
+
+	test("lets ** span any number of directories, including none", () => {
+		const regExp = globToRegExp("**/node_modules");
+		expect(regExp.test("node_modules")).toBe(true);
+		expect(regExp.test("apps/web/node_modules")).toBe(true);
+		expect(globToRegExp("packages/**").test("packages/ui/dist")).toBe(true);
+	});
+
+	test("supports character classes and escapes", () => {
+		expect(globToRegExp("v[0-9]").test("v1")).toBe(true);
+		expect(globToRegExp("v[!0-9]").test("v1")).toBe(false);
+		expect(globToRegExp("\\*.md").test("*.md")).toBe(true);
+		expect(globToRegExp("a.b").test("axb")).toBe(false);
+	});
+});
+
+describe("mapWithConcurrency", () => {
+	test("never runs more calls at once than allowed and keeps the order", async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		const results = await mapWithConcurrency(
+			[30, 10, 20, 5, 15],
+			2,
+			async (delay, index) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+				running--;
+				return index;
+			},
+		);
+
+		expect(maxRunning).toBe(2);
+		expect(results).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	test("handles an empty list", async () => {
+		expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+	});
+});
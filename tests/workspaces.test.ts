@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as fsPromises from "node:fs/promises";
+
+// Keep a copy of the real module so unrelated importers still resolve
+const actualFsPromises = { ...fsPromises };
+
+const files = new Map<string, string>();
+const globMock = mock(async (_patterns: string[], _opts: unknown) =>
+	[...files.keys()]
+		.filter((p) => p.startsWith("/ws/") && p.endsWith("/package.json"))
+		.map((p) => p.slice("/ws/".length)),
+);
+
+mock.module("node:fs/promises", () => ({
+	...actualFsPromises,
+	readFile: async (p: string, _enc?: unknown) => {
+		const content = files.get(p.replace(/\\/g, "/"));
+		if (content === undefined) throw new Error(`ENOENT: ${p}`);
+		return content;
+	},
+}));
+mock.module("glob", () => ({ glob: globMock }));
+
+const importWorkspaces = async (suffix: string = String(Math.random())) =>
+	await import(`../src/workspaces?${suffix}`);
+
+const pkg = (name: string, dir: string, dependencies: string[] = []) => ({
+	name,
+	dir,
+	dependencies,
+});
+
+const packages = [
+	pkg("@acme/web", "apps/web", ["@acme/ui"]),
+	pkg("@acme/ui", "packages/ui", ["@acme/tokens"]),
+	pkg("@acme/tokens", "packages/tokens"),
+	pkg("@acme/docs", "apps/docs", ["@acme/ui"]),
+];
+
+const names = (list: { name: string }[]) => list.map((p) => p.name);
+
+beforeEach(() => {
+	files.clear();
+	globMock.mockClear();
+});
+
+describe("getWorkspacePatterns", () => {
+	test("reads the packages list of pnpm-workspace.yaml", async () => {
+		const { getWorkspacePatterns } = await importWorkspaces("pnpm");
+		files.set(
+			"/ws/pnpm-workspace.yaml",
+			"packages:\n  - 'apps/*'\n  - \"packages/*\" # libraries\n  - '!**/test/**'\ncatalog:\n  react: ^19\n",
+		);
+
+		expect(await getWorkspacePatterns("/ws")).toEqual([
+			"apps/*",
+			"packages/*",
+			"!**/test/**",
+		]);
+	});
+
+	test("reads the workspaces field of package.json in both forms", async () => {
+		const { getWorkspacePatterns } = await importWorkspaces("npm");
+		files.set("/ws/package.json", JSON.stringify({ workspaces: ["apps/*"] }));
+		expect(await getWorkspacePatterns("/ws")).toEqual(["apps/*"]);
+
+		files.set(
+			"/ws/package.json",
+			JSON.stringify({ workspaces: { packages: ["libs/*"] } }),
+		);
+		expect(await getWorkspacePatterns("/ws")).toEqual(["libs/*"]);
+	});
+
+	test("returns nothing outside a workspace", async () => {
+		const { getWorkspacePatterns } = await importWorkspaces("none");
+		files.set("/ws/package.json", JSON.stringify({ name: "app" }));
+
+		expect(await getWorkspacePatterns("/ws")).toEqual([]);
+	});
+});
+
+describe("findWorkspacePackages", () => {
+	test("lists packages with their workspace dependencies", async () => {
+		const { findWorkspacePackages } = await importWorkspaces("find");
+		files.set(
+			"/ws/package.json",
+			JSON.stringify({ workspaces: ["apps/*", "packages/*", "!apps/legacy"] }),
+		);
+		files.set(
+			"/ws/packages/ui/package.json",
+			JSON.stringify({ name: "@acme/ui" }),
+		);
+		files.set(
+			"/ws/apps/web/package.json",
+			JSON.stringify({
+				name: "@acme/web",
+				dependencies: { "@acme/ui": "workspace:*", react: "^19.0.0" },
+				devDependencies: { "@acme/ui": "workspace:*" },
+			}),
+		);
+
+		const found = await findWorkspacePackages("/ws");
+
+		expect(found).toEqual([
+			pkg("@acme/web", "apps/web", ["@acme/ui"]),
+			pkg("@acme/ui", "packages/ui"),
+		]);
+		const opts = globMock.mock.calls[0]?.[1] as { ignore: string[] };
+		expect(opts.ignore).toContain("apps/legacy");
+	});
+});
+
+describe("selectWorkspacePackages", () => {
+	test("matches --workspace by name, directory or glob", async () => {
+		const { selectWorkspacePackages } = await importWorkspaces("workspace");
+
+		expect(
+			names(selectWorkspacePackages(packages, { workspace: ["@acme/web"] })),
+		).toEqual(["@acme/web"]);
+		expect(
+			names(selectWorkspacePackages(packages, { workspace: ["packages/*"] })),
+		).toEqual(["@acme/ui", "@acme/tokens"]);
+		expect(
+			names(selectWorkspacePackages(packages, { workspace: ["@acme/t*"] })),
+		).toEqual(["@acme/tokens"]);
+	});
+
+	test("follows dependencies and dependents with --filter", async () => {
+		const { selectWorkspacePackages } = await importWorkspaces("filter");
+
+		expect(
+			names(selectWorkspacePackages(packages, { filter: ["@acme/web..."] })),
+		).toEqual(["@acme/web", "@acme/ui", "@acme/tokens"]);
+		expect(
+			names(selectWorkspacePackages(packages, { filter: ["...@acme/ui"] })),
+		).toEqual(["@acme/web", "@acme/ui", "@acme/docs"]);
+	});
+
+	test("applies exclusions and directory filters", async () => {
+		const { selectWorkspacePackages } = await importWorkspaces("exclude");
+
+		expect(
+			names(selectWorkspacePackages(packages, { filter: ["!./apps/*"] })),
+		).toEqual(["@acme/ui", "@acme/tokens"]);
+		expect(
+			names(
+				selectWorkspacePackages(packages, {
+					filter: ["@acme/web...", "!@acme/tokens"],
+				}),
+			),
+		).toEqual(["@acme/web", "@acme/ui"]);
+	});
+
+	test("throws when nothing matches", async () => {
+		const { selectWorkspacePackages } = await importWorkspaces("no-match");
+
+		expect(() =>
+			selectWorkspacePackages(packages, { workspace: ["@acme/api"] }),
+		).toThrow("No workspace package matches @acme/api");
+	});
+});
+
+describe("getWorkspaceScopes", () => {
+	test("covers the root and every package, with their overrides", async () => {
+		const { getWorkspaceScopes } = await importWorkspaces("scopes");
+		files.set("/ws/package.json", JSON.stringify({ workspaces: ["apps/*"] }));
+		files.set(
+			"/ws/apps/web/package.json",
+			JSON.stringify({ name: "@acme/web" }),
+		);
+
+		const scopes = await getWorkspaceScopes(
+			"/ws",
+			{},
+			{ "apps/*": { targets: [".next"] } },
+		);
+
+		expect(scopes).toEqual([
+			{ dir: "." },
+			{ dir: "apps/web", name: "@acme/web", targets: [".next"] },
+		]);
+	});
+
+	test("leaves the root out when packages are selected", async () => {
+		const { getWorkspaceScopes } = await importWorkspaces("selected");
+		files.set("/ws/package.json", JSON.stringify({ workspaces: ["apps/*"] }));
+		files.set(
+			"/ws/apps/web/package.json",
+			JSON.stringify({ name: "@acme/web" }),
+		);
+
+		expect(
+			await getWorkspaceScopes("/ws", { workspace: ["@acme/web"] }),
+		).toEqual([{ dir: "apps/web", name: "@acme/web" }]);
+	});
+
+	test("returns undefined outside a workspace", async () => {
+		const { getWorkspaceScopes } = await importWorkspaces("plain");
+		files.set("/ws/package.json", JSON.stringify({ name: "app" }));
+
+		expect(await getWorkspaceScopes("/ws", {})).toBeUndefined();
+	});
+});